@@ -1,3 +1,7 @@
 export * from "./types.js";
 export * from "./stable-json.js";
 export * from "./policy.js";
+export * from "./param-match.js";
+export * from "./tool-pattern.js";
+export * from "./overlay.js";
+export * from "./schedule.js";
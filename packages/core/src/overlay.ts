@@ -0,0 +1,100 @@
+import type { Policy, PolicyOverlay, ToolCall, ToolRule } from "./types.js";
+import { findBestPatternKey } from "./tool-pattern.js";
+import { normalizeToolName } from "./policy.js";
+
+const AGENT_PREFIX = "agent:";
+const SESSION_PREFIX = "session:";
+
+// Resolve which overlays apply to a call context, agent first then session.
+// Returns IDs such as "agent:researcher" or "session:cron:*".
+export function resolvePolicyOverlays(policy: Policy, context: ToolCall["context"]): string[] {
+  const overlays: string[] = [];
+  const agentKey = findOverlayKey(policy.agents, context.agentId);
+  if (agentKey) {
+    overlays.push(`${AGENT_PREFIX}${agentKey}`);
+  }
+  const sessionKey = findOverlayKey(policy.sessions, context.sessionKey);
+  if (sessionKey) {
+    overlays.push(`${SESSION_PREFIX}${sessionKey}`);
+  }
+  return overlays;
+}
+
+// Build the effective policy for the given overlay IDs.
+// The result carries no agents/sessions sections so it can be evaluated directly.
+export function applyPolicyOverlays(policy: Policy, overlayIds: string[]): Policy {
+  let next: Policy = { ...policy };
+  delete next.agents;
+  delete next.sessions;
+  for (const id of overlayIds) {
+    const overlay = id.startsWith(AGENT_PREFIX)
+      ? policy.agents?.[id.slice(AGENT_PREFIX.length)]
+      : id.startsWith(SESSION_PREFIX)
+        ? policy.sessions?.[id.slice(SESSION_PREFIX.length)]
+        : undefined;
+    if (overlay) {
+      next = mergeOverlay(next, overlay);
+    }
+  }
+  return next;
+}
+
+function findOverlayKey(
+  overlays: Record<string, PolicyOverlay> | undefined,
+  id: string | undefined
+): string | undefined {
+  if (!overlays || !id) {
+    return undefined;
+  }
+  return findBestPatternKey(Object.keys(overlays), id);
+}
+
+function mergeOverlay(policy: Policy, overlay: PolicyOverlay): Policy {
+  const defaults = overlay.defaults;
+  const taint = defaults?.taint ?? policy.defaults.taint;
+  const escalation = defaults?.escalation ?? policy.defaults.escalation;
+  const sensitivePaths = defaults?.sensitivePaths ?? policy.defaults.sensitivePaths;
+  const workspaces = overlay.workspaces ?? policy.workspaces;
+  return {
+    ...policy,
+    defaults: {
+      denyUnknownTools: defaults?.denyUnknownTools ?? policy.defaults.denyUnknownTools,
+      unknownToolAction: defaults?.unknownToolAction ?? policy.defaults.unknownToolAction,
+      log: defaults?.log ?? policy.defaults.log,
+      redaction: defaults?.redaction ?? policy.defaults.redaction,
+      injection: {
+        mode: defaults?.injection?.mode ?? policy.defaults.injection.mode
+      },
+      ...(taint ? { taint } : {}),
+      ...(escalation ? { escalation } : {}),
+      ...(typeof sensitivePaths === "boolean" ? { sensitivePaths } : {})
+    },
+    risk: { ...policy.risk, ...overlay.risk },
+    tools: mergeOverlayTools(policy.tools, overlay.tools ?? []),
+    ...(workspaces ? { workspaces } : {})
+  };
+}
+
+// Overlay tool entries merge into the base rule by name. An overlay that sets the
+// action drops the base paramRules and schedule (which would override it) unless
+// it restates them.
+function mergeOverlayTools(base: ToolRule[], overlay: ToolRule[]): ToolRule[] {
+  const map = new Map<string, ToolRule>();
+  for (const rule of base) {
+    map.set(normalizeToolName(rule.name), rule);
+  }
+  for (const rule of overlay) {
+    const name = normalizeToolName(rule.name);
+    const merged: ToolRule = { ...map.get(name), ...rule, name };
+    if (rule.action !== undefined || rule.allow !== undefined) {
+      if (!rule.paramRules) {
+        delete merged.paramRules;
+      }
+      if (!rule.schedule) {
+        delete merged.schedule;
+      }
+    }
+    map.set(name, merged);
+  }
+  return Array.from(map.values());
+}
@@ -0,0 +1,159 @@
+import type { ParamCondition, ParamRule } from "./types.js";
+
+// Read a dotted path (e.g. "options.method" or "argv.0") from tool params.
+export function readParamField(params: Record<string, unknown>, field: string): unknown {
+  const segments = field.split(".").filter(Boolean);
+  let current: unknown = params;
+  for (const segment of segments) {
+    if (Array.isArray(current)) {
+      const index = Number(segment);
+      current = Number.isInteger(index) ? current[index] : undefined;
+    } else if (current && typeof current === "object") {
+      current = (current as Record<string, unknown>)[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+// Read every value at a JSONPath-style location: an optional leading "$", dotted
+// keys, "[n]" indexes, and "*" or "[*]" wildcards over arrays and objects.
+export function readParamValues(params: Record<string, unknown>, location: string): unknown[] {
+  const segments = location
+    .trim()
+    .replace(/^\$\.?/, "")
+    .replace(/\[(\*|\d+)\]/g, ".$1")
+    .split(".")
+    .filter(Boolean);
+  let current: unknown[] = [params];
+  for (const segment of segments) {
+    current = current.flatMap((value) => {
+      if (segment === "*") {
+        return Array.isArray(value) ? value : value && typeof value === "object" ? Object.values(value) : [];
+      }
+      const next = readParamField(value as Record<string, unknown>, segment);
+      return typeof next === "undefined" ? [] : [next];
+    });
+  }
+  return current;
+}
+
+// Check a single condition against the tool params.
+export function matchParamCondition(params: Record<string, unknown>, condition: ParamCondition): boolean {
+  const value = readParamField(params, condition.field);
+  const isPresent = value !== undefined && value !== null;
+
+  if (typeof condition.present === "boolean" && condition.present !== isPresent) {
+    return false;
+  }
+  if (typeof condition.equals !== "undefined" && value !== condition.equals) {
+    return false;
+  }
+  if (typeof condition.prefix === "string") {
+    const text = toComparableString(value);
+    if (text === null || !text.startsWith(condition.prefix)) {
+      return false;
+    }
+  }
+  if (typeof condition.matches === "string") {
+    const text = toComparableString(value);
+    const pattern = compilePattern(condition.matches);
+    if (text === null || !pattern || !pattern.test(text)) {
+      return false;
+    }
+  }
+  if (typeof condition.min === "number" || typeof condition.max === "number") {
+    const numeric = toComparableNumber(value);
+    if (numeric === null) {
+      return false;
+    }
+    if (typeof condition.min === "number" && numeric < condition.min) {
+      return false;
+    }
+    if (typeof condition.max === "number" && numeric > condition.max) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Return the index of the first param rule whose conditions all match.
+export function findMatchingParamRule(params: Record<string, unknown>, rules: ParamRule[]): number {
+  return rules.findIndex(
+    (rule) => rule.when.length > 0 && rule.when.every((condition) => matchParamCondition(params, condition))
+  );
+}
+
+// Short human-readable summary of a param rule for decision reasons.
+export function describeParamRule(rule: ParamRule): string {
+  if (rule.reason) {
+    return rule.reason;
+  }
+  return rule.when.map(describeCondition).join(" and ");
+}
+
+// Returns false when a regex pattern in a condition cannot be compiled.
+export function isValidParamPattern(pattern: string): boolean {
+  return compilePattern(pattern) !== null;
+}
+
+function describeCondition(condition: ParamCondition): string {
+  const parts: string[] = [];
+  if (typeof condition.present === "boolean") {
+    parts.push(condition.present ? "present" : "absent");
+  }
+  if (typeof condition.equals !== "undefined") {
+    parts.push(`= ${JSON.stringify(condition.equals)}`);
+  }
+  if (typeof condition.prefix === "string") {
+    parts.push(`prefix ${JSON.stringify(condition.prefix)}`);
+  }
+  if (typeof condition.matches === "string") {
+    parts.push(`matches /${condition.matches}/`);
+  }
+  if (typeof condition.min === "number") {
+    parts.push(`>= ${condition.min}`);
+  }
+  if (typeof condition.max === "number") {
+    parts.push(`<= ${condition.max}`);
+  }
+  return `${condition.field} ${parts.join(", ") || "any"}`;
+}
+
+function toComparableString(value: unknown): string | null {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  return null;
+}
+
+function toComparableNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+const patternCache = new Map<string, RegExp | null>();
+
+function compilePattern(pattern: string): RegExp | null {
+  if (patternCache.has(pattern)) {
+    return patternCache.get(pattern) ?? null;
+  }
+  let compiled: RegExp | null;
+  try {
+    compiled = new RegExp(pattern);
+  } catch {
+    compiled = null;
+  }
+  patternCache.set(pattern, compiled);
+  return compiled;
+}
@@ -1,17 +1,29 @@
 import type {
   Decision,
+  DecisionTraceStep,
   FirewallDecision,
   NormalizedToolRule,
+  ParamRule,
   Policy,
   Risk,
+  ScheduleRule,
   ToolCall,
   ToolRule
 } from "./types.js";
+import { describeParamRule, findMatchingParamRule } from "./param-match.js";
+import { describeScheduleWindow, findActiveSchedule } from "./schedule.js";
+import { resolveToolRule } from "./tool-pattern.js";
+import { applyPolicyOverlays, resolvePolicyOverlays } from "./overlay.js";
 
 const DEFAULT_REDACT_PARAMS = true;
 const DEFAULT_REDACT_RESULT = true;
 const DEFAULT_SCAN_INJECTION = true;
 
+export type EvaluateOptions = {
+  /** Clock for schedule windows (default: the current time). */
+  now?: () => Date;
+};
+
 // Normalize tool names for consistent policy lookups.
 export function normalizeToolName(name: string): string {
   return String(name || "tool").trim().toLowerCase();
@@ -28,17 +40,47 @@ export function normalizeToolRule(policy: Policy, rule: ToolRule): NormalizedToo
     name: normalizeToolName(rule.name),
     risk,
     action,
+    actionSource: hasExplicitAction(rule) ? "rule" : "risk",
     redactParams: rule.redactParams ?? DEFAULT_REDACT_PARAMS,
     redactResult: rule.redactResult ?? DEFAULT_REDACT_RESULT,
     scanInjection: rule.scanInjection ?? DEFAULT_SCAN_INJECTION,
     useExecApprovals: rule.useExecApprovals ?? false
   };
+  const paramRules = normalizeParamRules(rule.paramRules);
+  if (paramRules.length > 0) {
+    normalized.paramRules = paramRules;
+  }
+  const schedule = normalizeSchedule(rule.schedule);
+  if (schedule.length > 0) {
+    normalized.schedule = schedule;
+  }
   if (allowPaths && allowPaths.length > 0) {
     normalized.allowPaths = allowPaths;
   }
   if (rule.pathAction) {
     normalized.pathAction = rule.pathAction;
   }
+  if (rule.pathParams && rule.pathParams.length > 0) {
+    normalized.pathParams = rule.pathParams;
+  }
+  if (rule.commands) {
+    normalized.commands = rule.commands;
+  }
+  for (const key of ["denyPaths", "allowDomains", "denyDomains", "allowSchemes", "dlpDetectors"] as const) {
+    const list = rule[key];
+    if (Array.isArray(list)) {
+      normalized[key] = list.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0);
+    }
+  }
+  if (typeof rule.blockPrivateNetworks === "boolean") {
+    normalized.blockPrivateNetworks = rule.blockPrivateNetworks;
+  }
+  if (rule.networkAction) {
+    normalized.networkAction = rule.networkAction;
+  }
+  if (rule.dlpAction) {
+    normalized.dlpAction = rule.dlpAction;
+  }
   return normalized;
 }
 
@@ -53,17 +95,36 @@ export function buildPolicyIndex(policy: Policy): Map<string, NormalizedToolRule
 }
 
 // Main policy evaluation entry point.
+// When agent/session overlays match the call context, the overlaid policy is
+// evaluated with a fresh index; callers that cache per-overlay indexes should
+// pass the already-overlaid policy instead.
 export function evaluatePolicy(
   policy: Policy,
   toolCall: ToolCall,
-  toolIndex: Map<string, NormalizedToolRule> = buildPolicyIndex(policy)
+  toolIndex: Map<string, NormalizedToolRule> = buildPolicyIndex(policy),
+  options: EvaluateOptions = {}
 ): FirewallDecision {
+  const overlays = resolvePolicyOverlays(policy, toolCall.context ?? {});
+  if (overlays.length > 0) {
+    const scoped = evaluatePolicy(applyPolicyOverlays(policy, overlays), toolCall, undefined, options);
+    const trace = scoped.trace.map((step, index) =>
+      index === 0 ? { ...step, input: { ...step.input, overlays } } : step
+    );
+    return { ...scoped, overlays, trace };
+  }
   const normalizedToolName = normalizeToolName(toolCall.toolName);
-  const rule = toolIndex.get(normalizedToolName);
+  const match = resolveToolRule(toolIndex, normalizedToolName);
+  const rule = match?.rule;
 
   const risk: Risk = rule?.risk ?? "unknown";
+  const paramRuleIndex = rule?.paramRules
+    ? findMatchingParamRule(toolCall.params ?? {}, rule.paramRules)
+    : -1;
+  const paramRule = rule?.paramRules?.[paramRuleIndex];
   let decision: Decision;
-  if (rule) {
+  if (paramRule) {
+    decision = paramRule.action;
+  } else if (rule) {
     decision = rule.action;
   } else if (policy.defaults.denyUnknownTools) {
     decision = policy.defaults.unknownToolAction;
@@ -79,9 +140,45 @@ export function evaluatePolicy(
   const scanInjection = rule?.scanInjection ?? DEFAULT_SCAN_INJECTION;
   const useExecApprovals = rule?.useExecApprovals ?? false;
 
+  const baseReason = buildReason(policy, normalizedToolName, rule?.action ?? decision, rule, risk, match?.pattern);
+  const trace: DecisionTraceStep[] = [
+    {
+      stage: resolveBaseStage(policy, rule),
+      input: buildBaseTraceInput(normalizedToolName, risk, match?.pattern),
+      outcome: rule?.action ?? decision,
+      reason: baseReason
+    }
+  ];
+  let reason = baseReason;
+  const schedule = paramRule ? [] : resolveSchedule(policy, rule, risk);
+  const activeSchedule = schedule.length > 0 ? findActiveSchedule(schedule, (options.now ?? (() => new Date()))()) : undefined;
+  if (activeSchedule) {
+    decision = activeSchedule.rule.action;
+    reason = buildScheduleReason(normalizedToolName, decision, risk, activeSchedule.rule, match?.pattern);
+    trace.push({
+      stage: "schedule",
+      input: { index: activeSchedule.index + 1, window: describeScheduleWindow(activeSchedule.rule) },
+      outcome: decision,
+      reason
+    });
+  } else if (schedule.length > 0) {
+    reason = `${baseReason.replace(/\.$/, "")} outside schedule windows (${schedule.map(describeScheduleWindow).join("; ")}).`;
+    trace.push({ stage: "schedule", input: { windows: schedule.length }, outcome: decision, reason });
+  }
+  if (paramRule) {
+    reason = buildParamRuleReason(normalizedToolName, decision, risk, paramRuleIndex, paramRule, match?.pattern);
+    trace.push({
+      stage: "param_rule",
+      input: { index: paramRuleIndex + 1, rule: describeParamRule(paramRule) },
+      outcome: decision,
+      reason
+    });
+  }
+
   const result: FirewallDecision = {
     decision,
-    reason: buildReason(policy, normalizedToolName, decision, rule, risk),
+    reason,
+    trace,
     risk,
     redactionPlan,
     scanInjection,
@@ -90,9 +187,73 @@ export function evaluatePolicy(
   if (rule) {
     result.toolRule = rule;
   }
+  if (match?.pattern) {
+    result.matchedPattern = match.pattern;
+  }
+  if (paramRule) {
+    result.paramRuleIndex = paramRuleIndex;
+  }
+  if (activeSchedule) {
+    result.schedule = activeSchedule.rule;
+  }
   return result;
 }
 
+// A tool's own schedule wins; otherwise risk schedules apply to risk-default actions.
+function resolveSchedule(policy: Policy, rule: NormalizedToolRule | undefined, risk: Risk): ScheduleRule[] {
+  if (rule?.schedule) {
+    return rule.schedule;
+  }
+  if (rule ? rule.actionSource === "risk" : !policy.defaults.denyUnknownTools) {
+    return normalizeSchedule(policy.riskSchedule?.[risk]);
+  }
+  return [];
+}
+
+// Keep only schedule entries with a valid action; malformed windows never match.
+function normalizeSchedule(schedule: ScheduleRule[] | undefined): ScheduleRule[] {
+  if (!Array.isArray(schedule)) {
+    return [];
+  }
+  return schedule.filter(
+    (entry) => Boolean(entry) && (entry.action === "ALLOW" || entry.action === "ASK" || entry.action === "DENY")
+  );
+}
+
+// Keep only well-formed param rules; malformed entries never match.
+function normalizeParamRules(rules: ParamRule[] | undefined): ParamRule[] {
+  if (!Array.isArray(rules)) {
+    return [];
+  }
+  return rules.filter(
+    (entry) =>
+      Boolean(entry) &&
+      (entry.action === "ALLOW" || entry.action === "ASK" || entry.action === "DENY") &&
+      Array.isArray(entry.when) &&
+      entry.when.length > 0 &&
+      entry.when.every((condition) => Boolean(condition) && typeof condition.field === "string" && condition.field.length > 0)
+  );
+}
+
+function resolveBaseStage(policy: Policy, rule: NormalizedToolRule | undefined): DecisionTraceStep["stage"] {
+  if (rule) {
+    return rule.actionSource === "rule" ? "base_rule" : "risk_default";
+  }
+  return policy.defaults.denyUnknownTools ? "unknown_tool" : "risk_default";
+}
+
+function buildBaseTraceInput(toolName: string, risk: Risk, pattern?: string): Record<string, unknown> {
+  const input: Record<string, unknown> = { tool: toolName, risk };
+  if (pattern) {
+    input.pattern = pattern;
+  }
+  return input;
+}
+
+function hasExplicitAction(rule: ToolRule): boolean {
+  return Boolean(rule.action) || rule.allow === true || rule.allow === false || rule.allow === "ask" || rule.allow === "deny";
+}
+
 function resolveDecision(policy: Policy, rule: ToolRule, risk: Risk): Decision {
   if (rule.action) {
     return rule.action;
@@ -116,7 +277,8 @@ function buildReason(
   toolName: string,
   decision: Decision,
   rule: NormalizedToolRule | undefined,
-  risk: Risk
+  risk: Risk,
+  pattern?: string
 ): string {
   if (!rule) {
     if (policy.defaults.denyUnknownTools) {
@@ -127,5 +289,31 @@ function buildReason(
     }
     return `Unknown tool \"${toolName}\" evaluated by default policy.`;
   }
+  if (pattern) {
+    return `Tool \"${toolName}\" (${risk}) matched pattern \"${pattern}\" and resolved to ${decision}.`;
+  }
   return `Tool \"${toolName}\" (${risk}) resolved to ${decision}.`;
 }
+
+function buildScheduleReason(
+  toolName: string,
+  decision: Decision,
+  risk: Risk,
+  schedule: ScheduleRule,
+  pattern?: string
+): string {
+  const matched = pattern ? ` matched pattern \"${pattern}\" and` : "";
+  return `Tool \"${toolName}\" (${risk})${matched} resolved to ${decision} during schedule window ${describeScheduleWindow(schedule)}.`;
+}
+
+function buildParamRuleReason(
+  toolName: string,
+  decision: Decision,
+  risk: Risk,
+  index: number,
+  rule: ParamRule,
+  pattern?: string
+): string {
+  const matched = pattern ? ` matched pattern \"${pattern}\" and` : "";
+  return `Tool \"${toolName}\" (${risk})${matched} resolved to ${decision} by param rule #${index + 1} (${describeParamRule(rule)}).`;
+}
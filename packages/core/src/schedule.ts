@@ -0,0 +1,143 @@
+import type { ScheduleRule, ScheduleWindow } from "./types.js";
+
+export type ScheduleMatch = {
+  rule: ScheduleRule;
+  index: number;
+};
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const HOURS_PATTERN = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/;
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+// Return the first schedule entry whose window contains `now`, if any.
+export function findActiveSchedule(rules: ScheduleRule[], now: Date): ScheduleMatch | undefined {
+  const index = rules.findIndex((rule) => matchScheduleWindow(rule, now));
+  const rule = rules[index];
+  return rule ? { rule, index } : undefined;
+}
+
+// Whether `now` falls inside a window. Hour ranges whose end is before their start
+// wrap past midnight; after midnight, such a window belongs to the day it started
+// on, so `days` is checked against the previous local weekday.
+export function matchScheduleWindow(window: ScheduleWindow, now: Date): boolean {
+  const local = readLocalTime(now, window.timezone ?? "UTC");
+  if (!local) {
+    return false;
+  }
+  let startDay = local.day;
+  if (typeof window.hours !== "undefined") {
+    const hours = parseScheduleHours(window.hours);
+    if (!hours) {
+      return false;
+    }
+    const [start, end] = hours;
+    if (start <= end) {
+      if (local.minutes < start || local.minutes >= end) {
+        return false;
+      }
+    } else if (local.minutes < end) {
+      startDay = (local.day + 6) % 7;
+    } else if (local.minutes < start) {
+      return false;
+    }
+  }
+  if (typeof window.days !== "undefined") {
+    const days = parseScheduleDays(window.days);
+    if (!days || !days.has(startDay)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Parse "mon-fri", "sat,sun", "*" or a list of those into weekday numbers (0 = Sunday).
+export function parseScheduleDays(value: string | string[]): Set<number> | null {
+  const tokens = (Array.isArray(value) ? value : [value])
+    .flatMap((entry) => String(entry).split(","))
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  if (tokens.length === 0) {
+    return null;
+  }
+  const days = new Set<number>();
+  for (const token of tokens) {
+    if (token === "*") {
+      DAY_NAMES.forEach((_, index) => days.add(index));
+      continue;
+    }
+    const parts = token.split("-");
+    const [from, to] = parts.map((part) => DAY_NAMES.indexOf(part.trim().slice(0, 3)));
+    if (parts.length > 2 || typeof from !== "number" || from < 0 || (typeof to === "number" && to < 0)) {
+      return null;
+    }
+    const last = to ?? from;
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === last) {
+        break;
+      }
+    }
+  }
+  return days;
+}
+
+// Parse "HH:MM-HH:MM" into minutes since midnight; "24:00" is allowed as an end.
+export function parseScheduleHours(value: string): [number, number] | null {
+  const match = HOURS_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [startHour, startMinute, endHour, endMinute] = match.slice(1).map(Number) as [number, number, number, number];
+  const start = startHour * 60 + startMinute;
+  const end = endHour * 60 + endMinute;
+  if (startHour > 23 || endHour > 24 || startMinute > 59 || endMinute > 59 || end > 24 * 60 || start === end) {
+    return null;
+  }
+  return [start, end];
+}
+
+// Whether the runtime knows an IANA timezone name.
+export function isValidTimezone(timezone: string): boolean {
+  return getFormatter(timezone) !== null;
+}
+
+// Short label for reasons, e.g. "mon-fri 09:00-18:00 Europe/Berlin".
+export function describeScheduleWindow(window: ScheduleWindow): string {
+  const days = Array.isArray(window.days) ? window.days.join(",") : window.days;
+  return [days ?? "daily", window.hours ?? "all day", window.timezone ?? "UTC"].join(" ");
+}
+
+function readLocalTime(now: Date, timezone: string): { day: number; minutes: number } | null {
+  const formatter = getFormatter(timezone);
+  if (!formatter) {
+    return null;
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(now).map((part) => [part.type, part.value]));
+  const day = DAY_NAMES.indexOf(String(parts.weekday).slice(0, 3).toLowerCase());
+  const hour = Number(parts.hour) % 24;
+  const minute = Number(parts.minute);
+  if (day < 0 || !Number.isFinite(hour) || !Number.isFinite(minute)) {
+    return null;
+  }
+  return { day, minutes: hour * 60 + minute };
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat | null {
+  const cached = formatterCache.get(timezone);
+  if (cached) {
+    return cached;
+  }
+  try {
+    const formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23"
+    });
+    formatterCache.set(timezone, formatter);
+    return formatter;
+  } catch {
+    return null;
+  }
+}
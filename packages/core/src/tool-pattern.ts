@@ -0,0 +1,67 @@
+import type { NormalizedToolRule } from "./types.js";
+
+export type ToolRuleMatch = {
+  rule: NormalizedToolRule;
+  /** Set when the rule was selected through a glob pattern rather than an exact name. */
+  pattern?: string;
+};
+
+// Tool rule names containing `*` or `?` are treated as glob patterns.
+export function isToolNamePattern(name: string): boolean {
+  return name.includes("*") || name.includes("?");
+}
+
+// Match a normalized tool name against a glob pattern (`*` = any run, `?` = one char).
+export function matchToolNamePattern(pattern: string, toolName: string): boolean {
+  return compileGlob(pattern).test(toolName);
+}
+
+// Resolve the rule for a tool: exact name first, then the most specific glob.
+export function resolveToolRule(
+  toolIndex: Map<string, NormalizedToolRule>,
+  toolName: string
+): ToolRuleMatch | undefined {
+  const key = findBestPatternKey(Array.from(toolIndex.keys()), toolName);
+  const rule = key ? toolIndex.get(key) : undefined;
+  if (!key || !rule) {
+    return undefined;
+  }
+  return isToolNamePattern(key) ? { rule, pattern: key } : { rule };
+}
+
+// Pick the most specific key for a value: exact key first, then the longest glob.
+// Ties between globs of equal length keep declaration order.
+export function findBestPatternKey(keys: string[], value: string): string | undefined {
+  if (keys.includes(value) && !isToolNamePattern(value)) {
+    return value;
+  }
+  return keys
+    .filter((key) => isToolNamePattern(key))
+    .map((key, order) => ({ key, order, literal: key.replace(/[*?]/g, "").length }))
+    .sort((a, b) => b.literal - a.literal || b.key.length - a.key.length || a.order - b.order)
+    .find((entry) => compileGlob(entry.key).test(value))?.key;
+}
+
+const compiledPatterns = new Map<string, RegExp>();
+
+function compileGlob(pattern: string): RegExp {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) {
+    return cached;
+  }
+  const source = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") {
+        return ".*";
+      }
+      if (char === "?") {
+        return ".";
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  const compiled = new RegExp(`^${source}$`);
+  compiledPatterns.set(pattern, compiled);
+  return compiled;
+}
@@ -33,26 +33,210 @@ export type RedactionReport = {
   matches: RedactionMatch[];
 };
 
+export type RedactionReplacement = "hash" | "label" | "mask";
+
+// A custom redaction detector declared in policy.
+export type RedactionDetectorSpec = {
+  id: string;
+  /** Regular expression; with a capture group, only the first group is redacted. */
+  pattern: string;
+  /** Extra regex flags (e.g. "i"); "g" is always set. */
+  flags?: string;
+  /** Redaction modes that run the detector (default: standard and strict). */
+  modes?: Array<Exclude<RedactionMode, "off">>;
+  /** "hash" = [REDACTED:id:hash] (default), "label" = [REDACTED:id], "mask" = first 4 characters kept. */
+  replacement?: RedactionReplacement;
+  /** Whether outbound DLP checks the detector by default (default: true). */
+  dlp?: boolean;
+};
+
+export type RedactionSettings = {
+  /** Custom detectors; run before the built-in ones, and replace a built-in with the same ID. */
+  detectors?: RedactionDetectorSpec[];
+  /** Built-in detector IDs to turn off. */
+  disable?: string[];
+};
+
 export type RedactionPlan = {
   redactParams: boolean;
   redactResult: boolean;
 };
 
+// Single condition evaluated against a field of ToolCall.params.
+export type ParamCondition = {
+  /** Dotted path into the tool params (e.g. "command" or "headers.host"). */
+  field: string;
+  equals?: string | number | boolean;
+  /** Regular expression tested against the string form of the field. */
+  matches?: string;
+  prefix?: string;
+  min?: number;
+  max?: number;
+  /** true requires the field to be set; false requires it to be absent. */
+  present?: boolean;
+};
+
+// Param-conditional rule: every condition in `when` must match.
+export type ParamRule = {
+  when: ParamCondition[];
+  action: Decision;
+  reason?: string;
+};
+
+// A recurring time window: weekdays and an HH:MM range in an IANA timezone.
+export type ScheduleWindow = {
+  /** "mon-fri", "sat,sun", "*", or a list of those; every day when unset. */
+  days?: string | string[];
+  /** "09:00-18:00"; a range ending before it starts ("22:00-06:00") wraps past midnight. All day when unset. */
+  hours?: string;
+  /** IANA timezone, e.g. "Europe/Berlin" (default UTC). */
+  timezone?: string;
+};
+
+// Action that applies while the window is active.
+export type ScheduleRule = ScheduleWindow & {
+  action: Decision;
+};
+
+// One step of a sequence rule: a tool name or glob, plus optional param conditions.
+export type SequenceStep = {
+  tool: string;
+  when?: ParamCondition[];
+};
+
+// Ordered tool calls within one session. The rule fires on the call that matches
+// the last step, when the earlier steps were seen before it, in order.
+export type SequenceRule = {
+  id: string;
+  steps: SequenceStep[];
+  /** All steps must fall within this many seconds (default: the tracker window). */
+  withinSec?: number;
+  action: Decision;
+  reason?: string;
+};
+
+export type PathOperation = "read" | "write" | "delete";
+
+// Where a tool keeps file paths in its params: a JSONPath-style location such as
+// "$.target", "files[*].path", or "options.*.file".
+export type PathParamLocation = {
+  field: string;
+  /** What the tool does to the path (default: write). */
+  operation?: PathOperation;
+};
+
+// Path scopes shared by every file tool. Each path is governed by the deepest root
+// that contains it; paths outside every root are out of scope.
+export type WorkspaceScopes = {
+  /** Roots that may be read but not written or deleted. */
+  readOnly?: string[];
+  /** Roots that may be read, written, and deleted. */
+  readWrite?: string[];
+  /** Roots that may be read and written, but where nothing may be deleted. */
+  noDelete?: string[];
+  /** Action when an operation falls outside its scope (default: ASK). */
+  action?: Decision;
+};
+
+// Argument pattern for a binary invoked through exec.
+export type CommandRule = {
+  /** Binary name or glob, matched against the basename (e.g. "curl", "python*"). */
+  binary: string;
+  /** Glob tokens that must all appear in argv, e.g. ["push", "--force"]. Short flags match when clustered ("-rf" matches "-r -f"). */
+  args?: string[];
+  /** Regular expression tested against the invocation text ("binary arg1 arg2"). */
+  matches?: string;
+  action: Decision;
+  reason?: string;
+};
+
+// Shell-aware command policy for exec: every binary in the command line is evaluated.
+export type CommandPolicy = {
+  allow?: string[];
+  ask?: string[];
+  deny?: string[];
+  /** Ordered argument rules; the first match for a binary wins over the lists. */
+  rules?: CommandRule[];
+  /** Decision for binaries not covered by a rule or list (default: the tool decision). */
+  defaultAction?: Decision;
+  /** Decision when the command line cannot be parsed (default: ASK). */
+  unparsedAction?: Decision;
+};
+
+// Outbound DLP action: a decision, or REWRITE to send params with detected secrets redacted.
+export type DlpAction = Decision | "REWRITE";
+
 export type ToolRule = {
+  /** Exact tool name or glob pattern (`*`, `?`), e.g. "mcp_github_*". */
   name: string;
   risk?: Risk;
   action?: Decision;
   allow?: boolean | "ask" | "deny";
+  /** Ordered param rules; the first match overrides the tool action. */
+  paramRules?: ParamRule[];
+  /** Time windows; the first active window overrides the tool action (param rules still win). */
+  schedule?: ScheduleRule[];
   /** Optional allowlist of filesystem paths (applies to read/write/edit/apply_patch). */
   allowPaths?: string[];
+  /** Path globs (`**`, `*`, `?`, `{a,b}`) that are always denied, even inside allowPaths. */
+  denyPaths?: string[];
   /** Action to take when a path falls outside allowPaths. */
   pathAction?: Decision;
+  /** Param locations holding file paths, for tools without a built-in path extractor. */
+  pathParams?: PathParamLocation[];
+  /** Command policy for exec (binary allow/ask/deny lists and argument rules). */
+  commands?: CommandPolicy;
+  /** Domains network tools may reach; "*.example.com" matches subdomains. */
+  allowDomains?: string[];
+  /** Domains network tools may never reach (checked before allowDomains). */
+  denyDomains?: string[];
+  /** URL schemes network tools may use (default: http, https). */
+  allowSchemes?: string[];
+  /** Block loopback, private, and link-local hosts (default: true). */
+  blockPrivateNetworks?: boolean;
+  /** Action to take when a URL fails the network guard (default: ASK). */
+  networkAction?: Decision;
+  /** Action when outbound params contain secrets (default: ASK for outbound tools). */
+  dlpAction?: DlpAction;
+  /** Detector types checked by outbound DLP (default: secret detectors). */
+  dlpDetectors?: string[];
   redactParams?: boolean;
   redactResult?: boolean;
   scanInjection?: boolean;
   useExecApprovals?: boolean;
 };
 
+// Escalation applied to outbound tools while a session is tainted.
+export type TaintSettings = {
+  action: Decision;
+  /** Seconds a taint mark lasts after the latest finding. */
+  ttlSec: number;
+  /** Tools escalated while tainted (default: web_fetch, message, sessions_send, browser). */
+  tools?: string[];
+};
+
+// Signals that raise a session's suspicion score.
+export type SuspicionSignal = "deny" | "ask" | "injection" | "path_guard";
+
+// Stricter posture applied once a session's suspicion score reaches `score`.
+export type EscalationLevel = {
+  score: number;
+  action: Decision;
+  /** Risk levels escalated (default: every tool). */
+  risks?: Risk[];
+};
+
+// Adaptive escalation for sessions that keep hitting the firewall.
+export type EscalationSettings = {
+  levels: EscalationLevel[];
+  /** Seconds an escalation lasts once triggered. */
+  cooldownSec: number;
+  /** Seconds a signal counts toward the score. */
+  windowSec: number;
+  /** Score added per signal (default: deny 1, ask 1, injection 3, path_guard 2). */
+  weights?: Partial<Record<SuspicionSignal, number>>;
+};
+
 export type PolicyDefaults = {
   denyUnknownTools: boolean;
   unknownToolAction: Decision;
@@ -61,35 +245,116 @@ export type PolicyDefaults = {
   injection: {
     mode: InjectionMode;
   };
+  /** Session taint escalation; taint is tracked but not enforced when unset. */
+  taint?: TaintSettings;
+  /** Deny built-in sensitive paths (~/.ssh, ~/.aws, ~/.openclaw, ...); on unless false. */
+  sensitivePaths?: boolean;
+  /** Suspicion scoring and escalation; sessions are not scored when unset. */
+  escalation?: EscalationSettings;
+};
+
+// Partial policy applied on top of the base policy for a matching agent or session.
+export type PolicyOverlay = {
+  risk?: Partial<Record<Risk, Decision>>;
+  defaults?: Partial<Omit<PolicyDefaults, "injection">> & {
+    injection?: Partial<PolicyDefaults["injection"]>;
+  };
+  tools?: ToolRule[];
+  /** Replaces the policy's workspaces for matching agents or sessions. */
+  workspaces?: WorkspaceScopes;
 };
 
 export type Policy = {
   mode: string;
   defaults: PolicyDefaults;
   risk: Record<Risk, Decision>;
+  /** Time windows per risk level, applied when a tool's action comes from its risk default. */
+  riskSchedule?: Partial<Record<Risk, ScheduleRule[]>>;
   tools: ToolRule[];
+  /** Overlays keyed by agent ID or agent glob. */
+  agents?: Record<string, PolicyOverlay>;
+  /** Overlays keyed by session key or session key glob. */
+  sessions?: Record<string, PolicyOverlay>;
+  /** Behavioral rules over consecutive tool calls in a session. */
+  sequences?: SequenceRule[];
+  /** Read-only, read-write, and no-delete path roots for all file tools. */
+  workspaces?: WorkspaceScopes;
+  /** Custom redaction detectors and disabled built-ins. */
+  redaction?: RedactionSettings;
 };
 
 export type NormalizedToolRule = {
   name: string;
   risk: Risk;
   action: Decision;
+  /** Whether `action` came from the rule itself or from the risk default. */
+  actionSource: "rule" | "risk";
+  paramRules?: ParamRule[];
+  schedule?: ScheduleRule[];
   allowPaths?: string[];
+  denyPaths?: string[];
   pathAction?: Decision;
+  pathParams?: PathParamLocation[];
+  commands?: CommandPolicy;
+  allowDomains?: string[];
+  denyDomains?: string[];
+  allowSchemes?: string[];
+  blockPrivateNetworks?: boolean;
+  networkAction?: Decision;
+  dlpAction?: DlpAction;
+  dlpDetectors?: string[];
   redactParams: boolean;
   redactResult: boolean;
   scanInjection: boolean;
   useExecApprovals: boolean;
 };
 
+// Evaluation stages recorded in a decision trace, in the order they run.
+export type DecisionStage =
+  | "base_rule"
+  | "param_rule"
+  | "risk_default"
+  | "unknown_tool"
+  | "schedule"
+  | "command_guard"
+  | "exec_delegation"
+  | "path_guard"
+  | "network_guard"
+  | "dlp"
+  | "taint"
+  | "sequence"
+  | "escalation"
+  | "rate_limit"
+  | "concurrency"
+  | "quota"
+  | "approval";
+
+// One step of a decision trace. `input` holds non-secret context only.
+export type DecisionTraceStep = {
+  stage: DecisionStage;
+  input: Record<string, unknown>;
+  outcome: Decision;
+  reason: string;
+};
+
 export type FirewallDecision = {
   decision: Decision;
   reason: string;
+  /** Ordered record of every stage that contributed to the decision. */
+  trace: DecisionTraceStep[];
   risk: Risk;
   redactionPlan: RedactionPlan;
   scanInjection: boolean;
   useExecApprovals: boolean;
   toolRule?: NormalizedToolRule;
+  /** Glob pattern from tools[].name that selected the rule, if not an exact match. */
+  matchedPattern?: string;
+  /** Index of the param rule that decided the call, if any. */
+  paramRuleIndex?: number;
+  /** Schedule entry that was active for the call, if any. */
+  schedule?: ScheduleRule;
+  /** Overlays applied for this call, e.g. ["agent:researcher"]. */
+  overlays?: string[];
 };
 
 export type Receipt = {
@@ -4,12 +4,13 @@ import { fileURLToPath } from "node:url";
 
 const scriptsDir = path.dirname(fileURLToPath(import.meta.url));
 const packageDir = path.resolve(scriptsDir, "..");
-const source = path.join(packageDir, "openclaw.plugin.json");
-const target = path.join(packageDir, "dist", "openclaw.plugin.json");
+const files = ["openclaw.plugin.json", "policy.schema.json"];
 
-if (!fs.existsSync(source)) {
-  throw new Error(`openclaw.plugin.json not found at ${source}`);
+fs.mkdirSync(path.join(packageDir, "dist"), { recursive: true });
+for (const file of files) {
+  const source = path.join(packageDir, file);
+  if (!fs.existsSync(source)) {
+    throw new Error(`${file} not found at ${source}`);
+  }
+  fs.copyFileSync(source, path.join(packageDir, "dist", file));
 }
-
-fs.mkdirSync(path.dirname(target), { recursive: true });
-fs.copyFileSync(source, target);
@@ -6,6 +6,8 @@ import { runFirewallSetupWizard, WizardCancelledError, type WizardRunOptions } f
 import { auditOpenClawConfig, formatAuditFindings } from "./audit.js";
 import {
   readLastDecision,
+  readReceipts,
+  getStateDir,
   loadApprovalStore,
   loadApprovalRollup,
   rebuildApprovalRollupFromHistory
@@ -16,6 +18,8 @@ import {
   formatRecommendationsYaml
 } from "./recommend.js";
 import type { CommanderProgram, PluginLogger } from "./openclaw-types.js";
+import { formatDecisionTrace } from "./trace.js";
+import { formatSimulationReport, simulatePolicy } from "./simulate.js";
 
 export type FirewallCliOptions = {
   logger?: PluginLogger;
@@ -254,7 +258,12 @@ export function registerFirewallCli(program: CommanderProgram, options: Firewall
       if (loaded.warnings.length > 0) {
         loaded.warnings.forEach((warning) => logger?.warn?.(warning));
       }
+      loaded.errors.forEach((error) => logger?.error?.(error));
       logger?.info?.(`Policy source: ${loaded.source}`);
+      if (loaded.errors.length > 0) {
+        logger?.error?.(`Policy is invalid (${loaded.errors.length} error(s)).`);
+        process.exitCode = 1;
+      }
     });
 
   root
@@ -271,6 +280,40 @@ export function registerFirewallCli(program: CommanderProgram, options: Firewall
       logger?.info?.(`Risk: ${last.risk ?? "n/a"}`);
       logger?.info?.(`Reason: ${last.reason ?? "n/a"}`);
       logger?.info?.(`When: ${last.timestamp}`);
+      formatDecisionTrace(last.metadata?.trace).forEach((line) => logger?.info?.(line));
+    });
+
+  root
+    .command("simulate")
+    .description("Replay recorded decisions against a candidate policy")
+    .option("--policy <path>", "Candidate policy file path")
+    .option("--preset <preset>", "Preset: strict|standard|dev")
+    .option("--receipts <path>", "Receipts file (default: firewall state dir)")
+    .action((...args: unknown[]) => {
+      const opts = getOptions(args);
+      if (typeof opts.policy !== "string") {
+        logger?.error?.("Usage: simulate --policy <path>");
+        process.exitCode = 1;
+        return;
+      }
+      const loaded = loadPolicyConfig({ policyPath: opts.policy, preset: normalizePreset(opts.preset) });
+      loaded.warnings.forEach((warning) => logger?.warn?.(warning));
+      loaded.errors.forEach((error) => logger?.error?.(error));
+      if (loaded.errors.length > 0) {
+        logger?.error?.(`Candidate policy is invalid (${loaded.errors.length} error(s)); not simulating.`);
+        process.exitCode = 1;
+        return;
+      }
+      const receipts = typeof opts.receipts === "string"
+        ? readReceipts(getStateDir(), opts.receipts)
+        : readReceipts();
+      if (receipts.length === 0) {
+        logger?.info?.("No receipts recorded yet.");
+        return;
+      }
+      const report = simulatePolicy(receipts, loaded.policy);
+      logger?.info?.(`Candidate policy: ${loaded.source}`);
+      logger?.info?.(formatSimulationReport(report));
     });
 
   root
@@ -0,0 +1,331 @@
+import path from "node:path";
+import {
+  isValidParamPattern,
+  matchToolNamePattern,
+  type CommandPolicy,
+  type CommandRule,
+  type Decision,
+  type PathOperation
+} from "@mindaiproject/firewall-core";
+import { isFileRedirect, parseShellCommand, type ShellCommand } from "./shell-parse.js";
+
+// One binary run by the command line, after unwrapping sudo/env/sh -c and friends.
+export type CommandInvocation = {
+  binary: string;
+  args: string[];
+};
+
+export type CommandPathOperation = {
+  path: string;
+  operation: PathOperation;
+};
+
+export type CommandGuardResult = {
+  decision: Decision;
+  reason: string;
+  /** Basenames of every binary the command would run, in order. */
+  binaries: string[];
+  /** What decided the most severe invocation. */
+  matched?: {
+    binary: string;
+    source: "rule" | "deny" | "ask" | "allow" | "default" | "unparsed";
+    ruleIndex?: number;
+  };
+  parseError?: string;
+};
+
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh"]);
+// Wrappers that run another command; the wrapped command is evaluated too.
+const WRAPPERS = new Set(["sudo", "doas", "env", "nohup", "nice", "time", "timeout", "exec", "command", "xargs", "stdbuf"]);
+// Wrapper options that consume the following word.
+const WRAPPER_VALUE_OPTIONS: Record<string, Set<string>> = {
+  sudo: new Set(["-u", "-g", "-C", "-h", "-p", "-U"]),
+  doas: new Set(["-u", "-C"]),
+  env: new Set(["-u", "-C", "-S"]),
+  nice: new Set(["-n"]),
+  timeout: new Set(["-s", "-k"]),
+  xargs: new Set(["-I", "-n", "-P", "-d", "-L", "-s", "-E", "-a"]),
+  stdbuf: new Set(["-i", "-o", "-e"])
+};
+const MAX_UNWRAP_DEPTH = 8;
+// File utilities by what they do to their path arguments. "last" binaries write
+// only their final argument (the destination).
+const DELETE_BINARIES = new Set(["rm", "rmdir", "unlink", "shred"]);
+const WRITE_BINARIES = new Set(["touch", "mkdir", "tee", "truncate", "chmod", "chown", "chgrp"]);
+const WRITE_LAST_BINARIES = new Set(["cp", "ln", "install", "rsync", "scp"]);
+const IN_PLACE_BINARIES = new Set(["sed", "perl"]);
+const OPERATION_RANK: Record<PathOperation, number> = { read: 0, write: 1, delete: 2 };
+
+// Read the command line from exec params (`command` string or argv array).
+// Argv entries are shell-quoted so the parser sees exactly the same words.
+export function readExecCommand(params: Record<string, unknown>): string | null {
+  const value = params.command ?? params.cmd;
+  if (typeof value === "string") {
+    return value;
+  }
+  if (Array.isArray(value) && value.every((entry) => typeof entry === "string")) {
+    return value.map(quoteShellWord).join(" ");
+  }
+  return null;
+}
+
+// Evaluate every binary in a command line against a command policy.
+// `fallback` is used for binaries no rule or list covers (usually the tool decision).
+export function evaluateCommandPolicy(command: string, policy: CommandPolicy, fallback: Decision): CommandGuardResult {
+  const parsed = parseShellCommand(command);
+  const invocations = resolveInvocations(parsed.commands);
+  const binaries = invocations.map((invocation) => invocation.binary);
+
+  let result: CommandGuardResult = {
+    decision: policy.defaultAction ?? fallback,
+    reason: "No command found.",
+    binaries
+  };
+  let decided = false;
+  for (const invocation of invocations) {
+    const verdict = evaluateInvocation(invocation, policy, fallback);
+    if (!decided || decisionRank(verdict.decision) > decisionRank(result.decision)) {
+      result = { ...verdict, binaries };
+      decided = true;
+    }
+  }
+
+  if (parsed.error) {
+    const action = policy.unparsedAction ?? "ASK";
+    if (!decided || decisionRank(action) > decisionRank(result.decision)) {
+      result = {
+        decision: action,
+        reason: `Command could not be parsed (${parsed.error})`,
+        binaries,
+        matched: { binary: "", source: "unparsed" }
+      };
+    }
+    result.parseError = parsed.error;
+  }
+  return result;
+}
+
+// Path-like arguments and file redirection targets of a command line (unresolved).
+export function extractCommandPaths(command: string): string[] {
+  return extractCommandPathOperations(command).map((entry) => entry.path);
+}
+
+// Like extractCommandPaths, with what the command does to each path. Arguments of
+// known file utilities (rm, mv, cp, touch, ...) and output redirections count as
+// writes or deletes; every other path argument counts as a read.
+export function extractCommandPathOperations(command: string): CommandPathOperation[] {
+  const parsed = parseShellCommand(command);
+  const operations = new Map<string, PathOperation>();
+  const note = (target: string, operation: PathOperation) => {
+    const current = operations.get(target);
+    if (!current || OPERATION_RANK[operation] > OPERATION_RANK[current]) {
+      operations.set(target, operation);
+    }
+  };
+  for (const shellCommand of parsed.commands) {
+    for (const arg of shellCommand.argv.slice(1)) {
+      const candidate = readPathArgument(arg);
+      if (candidate) {
+        note(candidate, "read");
+      }
+    }
+    for (const invocation of resolveInvocations([shellCommand])) {
+      const targets = invocation.args.map(readPathArgument).filter((entry): entry is string => entry !== null);
+      targets.forEach((target, index) => note(target, classifyArgument(invocation, index, targets.length)));
+    }
+    for (const redirect of shellCommand.redirects) {
+      if (isFileRedirect(redirect) && redirect.target !== "/dev/null") {
+        note(redirect.target, redirect.op.includes(">") ? "write" : "read");
+      }
+    }
+  }
+  return Array.from(operations, ([target, operation]) => ({ path: target, operation }));
+}
+
+// Expand simple commands into invocations, unwrapping wrappers and `sh -c` scripts.
+export function resolveInvocations(commands: ShellCommand[], depth = 0): CommandInvocation[] {
+  const invocations: CommandInvocation[] = [];
+  for (const command of commands) {
+    let argv = command.argv;
+    for (let level = 0; argv.length > 0 && level < MAX_UNWRAP_DEPTH; level += 1) {
+      const binary = path.basename(argv[0] as string);
+      const args = argv.slice(1);
+      invocations.push({ binary, args });
+      if (SHELLS.has(binary) && depth < MAX_UNWRAP_DEPTH) {
+        const script = readShellScript(args);
+        if (script !== null) {
+          invocations.push(...resolveInvocations(parseShellCommand(script).commands, depth + 1));
+        }
+        break;
+      }
+      if (!WRAPPERS.has(binary)) {
+        break;
+      }
+      argv = unwrap(binary, args);
+    }
+  }
+  return invocations;
+}
+
+function evaluateInvocation(
+  invocation: CommandInvocation,
+  policy: CommandPolicy,
+  fallback: Decision
+): Omit<CommandGuardResult, "binaries"> {
+  const { binary } = invocation;
+  const rules = policy.rules ?? [];
+  const ruleIndex = rules.findIndex((rule) => matchCommandRule(rule, invocation));
+  const rule = rules[ruleIndex];
+  if (rule) {
+    return {
+      decision: rule.action,
+      reason: rule.reason ?? `Command rule #${ruleIndex + 1} matched ${describeCommandRule(rule)}.`,
+      matched: { binary, source: "rule", ruleIndex }
+    };
+  }
+  if (matchesList(policy.deny, binary)) {
+    return { decision: "DENY", reason: `Command ${binary} is on the deny list.`, matched: { binary, source: "deny" } };
+  }
+  if (matchesList(policy.ask, binary)) {
+    return { decision: "ASK", reason: `Command ${binary} is on the ask list.`, matched: { binary, source: "ask" } };
+  }
+  if (matchesList(policy.allow, binary)) {
+    return { decision: "ALLOW", reason: `Command ${binary} is on the allow list.`, matched: { binary, source: "allow" } };
+  }
+  return {
+    decision: policy.defaultAction ?? fallback,
+    reason: `Command ${binary} is not listed; using the default action.`,
+    matched: { binary, source: "default" }
+  };
+}
+
+function matchCommandRule(rule: CommandRule, invocation: CommandInvocation): boolean {
+  if (!matchToolNamePattern(rule.binary, invocation.binary)) {
+    return false;
+  }
+  if (rule.args && !rule.args.every((pattern) => matchArgPattern(pattern, invocation.args))) {
+    return false;
+  }
+  if (rule.matches) {
+    if (!isValidParamPattern(rule.matches)) {
+      return false;
+    }
+    return new RegExp(rule.matches).test([invocation.binary, ...invocation.args].join(" "));
+  }
+  return true;
+}
+
+// Short flag patterns ("-rf") match regardless of clustering; other patterns are globs.
+function matchArgPattern(pattern: string, args: string[]): boolean {
+  if (isShortFlagCluster(pattern)) {
+    const present = new Set(args.filter(isShortFlagCluster).flatMap((arg) => arg.slice(1).split("")));
+    return pattern
+      .slice(1)
+      .split("")
+      .every((flag) => present.has(flag));
+  }
+  return args.some((arg) => matchToolNamePattern(pattern, arg));
+}
+
+function isShortFlagCluster(value: string): boolean {
+  return /^-[A-Za-z0-9]+$/.test(value);
+}
+
+function describeCommandRule(rule: CommandRule): string {
+  const parts = [rule.binary, ...(rule.args ?? [])];
+  if (rule.matches) {
+    parts.push(`/${rule.matches}/`);
+  }
+  return `"${parts.join(" ")}"`;
+}
+
+function matchesList(list: string[] | undefined, binary: string): boolean {
+  return (list ?? []).some((entry) => matchToolNamePattern(entry, binary));
+}
+
+function readShellScript(args: string[]): string | null {
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i] as string;
+    if (!arg.startsWith("-")) {
+      return null;
+    }
+    if (isShortFlagCluster(arg) && arg.includes("c")) {
+      return args[i + 1] ?? null;
+    }
+  }
+  return null;
+}
+
+// Skip wrapper options (and env assignments / timeout durations) to reach the wrapped command.
+function unwrap(binary: string, args: string[]): string[] {
+  const valueOptions = WRAPPER_VALUE_OPTIONS[binary];
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i] as string;
+    if (arg === "--") {
+      i += 1;
+      break;
+    }
+    if (arg.startsWith("-")) {
+      i += valueOptions?.has(arg) ? 2 : 1;
+      continue;
+    }
+    if (binary === "env" && arg.includes("=")) {
+      i += 1;
+      continue;
+    }
+    if (binary === "timeout" && /^\d/.test(arg)) {
+      i += 1;
+    }
+    break;
+  }
+  return args.slice(i);
+}
+
+// `mv` deletes its sources and writes its destination.
+function classifyArgument(invocation: CommandInvocation, index: number, count: number): PathOperation {
+  const { binary, args } = invocation;
+  const last = index === count - 1 && count > 1;
+  if (DELETE_BINARIES.has(binary)) {
+    return "delete";
+  }
+  if (binary === "mv") {
+    return last ? "write" : "delete";
+  }
+  if (WRITE_BINARIES.has(binary) || (WRITE_LAST_BINARIES.has(binary) && last)) {
+    return "write";
+  }
+  if (IN_PLACE_BINARIES.has(binary) && args.some((arg) => /^-[a-zA-Z]*i/.test(arg) || arg.startsWith("--in-place"))) {
+    return "write";
+  }
+  return "read";
+}
+
+function readPathArgument(arg: string): string | null {
+  const value = arg.startsWith("-") && arg.includes("=") ? arg.slice(arg.indexOf("=") + 1) : arg;
+  if (!value || value.startsWith("-") || value.includes("://")) {
+    return null;
+  }
+  if (value === "~" || value === "." || value === "..") {
+    return value;
+  }
+  if (value.startsWith("/") || value.startsWith("./") || value.startsWith("../") || value.startsWith("~/")) {
+    return value;
+  }
+  return value.includes("/") ? value : null;
+}
+
+// Single-quote a word unless it has no shell metacharacters.
+function quoteShellWord(word: string): string {
+  return /^[A-Za-z0-9_@%+=:,./-]+$/.test(word) ? word : `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+function decisionRank(decision: Decision): number {
+  if (decision === "DENY") {
+    return 2;
+  }
+  if (decision === "ASK") {
+    return 1;
+  }
+  return 0;
+}
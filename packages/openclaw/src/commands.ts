@@ -8,8 +8,10 @@ import {
   readLastDecision
 } from "./storage.js";
 import type { FirewallState } from "./handlers.js";
+import { formatDecisionTrace } from "./trace.js";
+import { reloadPolicy } from "./reload.js";
 
-// Handle /firewall command actions (approve/deny/status/explain).
+// Handle /firewall command actions (approve/deny/status/explain/reload/untaint/reset).
 export function handleFirewallCommand(state: FirewallState, ctx: PluginCommandContext): ReplyPayload {
   const args = (ctx.args ?? "").trim();
   if (!args) {
@@ -29,6 +31,12 @@ export function handleFirewallCommand(state: FirewallState, ctx: PluginCommandCo
       return explainLast(state);
     case "audit":
       return auditConfig(ctx);
+    case "reload":
+      return reload(state);
+    case "untaint":
+      return untaint(state, parts[1]);
+    case "reset":
+      return resetSession(state, parts[1]);
     case "help":
     default:
       return { text: formatHelp() };
@@ -77,14 +85,52 @@ function denyRequest(state: FirewallState, id?: string): ReplyPayload {
 function status(state: FirewallState): ReplyPayload {
   const store = loadApprovalStore(state.stateDir);
   const pending = store.requests.filter((entry) => entry.status === "pending");
+  const tainted = state.taintLedger?.list() ?? [];
+  const taintLines = tainted.length > 0
+    ? [
+        `Tainted sessions (${tainted.length}):`,
+        ...tainted.map(
+          ({ sessionKey, record }) =>
+            `- ${sessionKey} types=${record.types.join(",")} until=${new Date(record.expiresAt).toISOString()}`
+        )
+      ]
+    : [];
+  const quotas = state.quotaTracker?.status() ?? [];
+  const quotaLines = quotas.length > 0
+    ? [
+        "Quotas:",
+        ...quotas.map(
+          (entry) =>
+            `- ${entry.rule.toolName} ${entry.scopeKey} ${entry.used}/${entry.rule.maxCalls} per ${entry.rule.period} (${entry.remaining} left, resets ${entry.resetsAt})`
+        )
+      ]
+    : [];
+  const inFlight = state.concurrencyTracker?.status() ?? [];
+  const inFlightLines = inFlight.length > 0
+    ? [
+        "In flight:",
+        ...inFlight.map((entry) => `- ${entry.rule.toolName} ${entry.scopeKey} ${entry.inFlight}/${entry.rule.maxInFlight}`)
+      ]
+    : [];
+  const escalated = (state.suspicionTracker?.list() ?? []).filter(({ suspicion }) => suspicion.escalation);
+  const escalationLines = escalated.length > 0
+    ? [
+        `Escalated sessions (${escalated.length}):`,
+        ...escalated.map(
+          ({ sessionKey, suspicion }) =>
+            `- ${sessionKey} action=${suspicion.escalation?.level.action} score=${suspicion.score} until=${new Date(suspicion.escalation?.until ?? 0).toISOString()}`
+        )
+      ]
+    : [];
+  const runtimeLines = [...taintLines, ...escalationLines, ...inFlightLines, ...quotaLines];
   if (pending.length === 0) {
-    return { text: "No pending firewall approvals." };
+    return { text: ["No pending firewall approvals.", ...runtimeLines].join("\n") };
   }
   const lines = pending.map(
     (entry) =>
       `- ${entry.id} tool=${entry.toolName} risk=${entry.risk} session=${entry.sessionKey ?? "n/a"}`
   );
-  return { text: [`Pending approvals (${pending.length}):`, ...lines].join("\n") };
+  return { text: [`Pending approvals (${pending.length}):`, ...lines, ...runtimeLines].join("\n") };
 }
 
 function explainLast(state: FirewallState): ReplyPayload {
@@ -97,11 +143,46 @@ function explainLast(state: FirewallState): ReplyPayload {
     `Tool: ${last.toolName ?? "unknown"}`,
     `Risk: ${last.risk ?? "n/a"}`,
     `Reason: ${last.reason ?? "n/a"}`,
-    `When: ${last.timestamp}`
+    `When: ${last.timestamp}`,
+    ...formatDecisionTrace(last.metadata?.trace)
   ];
   return { text: lines.join("\n") };
 }
 
+function reload(state: FirewallState): ReplyPayload {
+  const result = reloadPolicy(state, "command");
+  if (!result.applied) {
+    return {
+      text: [
+        `Policy reload rejected; keeping policy ${result.policyHash}.`,
+        ...result.errors.map((error) => `- ${error}`)
+      ].join("\n")
+    };
+  }
+  const summary = result.changed ? "Policy reloaded" : "Policy reloaded (unchanged)";
+  return { text: `${summary}: ${result.source} (${result.policyHash}).` };
+}
+
+function untaint(state: FirewallState, sessionKey?: string): ReplyPayload {
+  if (!sessionKey) {
+    return { text: "Usage: /firewall untaint <sessionKey>" };
+  }
+  if (!state.taintLedger?.clear(sessionKey)) {
+    return { text: `Session ${sessionKey} is not tainted.` };
+  }
+  return { text: `Cleared taint for ${sessionKey}.` };
+}
+
+function resetSession(state: FirewallState, sessionKey?: string): ReplyPayload {
+  if (!sessionKey) {
+    return { text: "Usage: /firewall reset <sessionKey>" };
+  }
+  if (!state.suspicionTracker?.reset(sessionKey)) {
+    return { text: `Session ${sessionKey} has no suspicion score.` };
+  }
+  return { text: `Reset suspicion score and escalation for ${sessionKey}.` };
+}
+
 function auditConfig(ctx: PluginCommandContext): ReplyPayload {
   const findings = auditOpenClawConfig(ctx.config ?? {});
   return { text: formatAuditFindings(findings) };
@@ -114,7 +195,10 @@ function formatHelp(): string {
     "/firewall approve <requestId> once|session",
     "/firewall deny <requestId>",
     "/firewall explain",
-    "/firewall audit"
+    "/firewall audit",
+    "/firewall reload",
+    "/firewall untaint <sessionKey>",
+    "/firewall reset <sessionKey>"
   ].join("\n");
 }
 
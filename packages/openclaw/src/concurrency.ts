@@ -0,0 +1,190 @@
+import { matchToolNamePattern, normalizeToolName, type Decision } from "@mindaiproject/firewall-core";
+import type { RateLimitScope } from "./rate-limit.js";
+
+export type ConcurrencyLimitRule = {
+  toolName: string;
+  maxInFlight: number;
+  action?: Decision;
+  scope?: RateLimitScope;
+  /** Calls without a result after this long stop counting (default 600). */
+  timeoutSec?: number;
+};
+
+export type NormalizedConcurrencyRule = {
+  id: string;
+  toolName: string;
+  matchAll: boolean;
+  maxInFlight: number;
+  action: Decision;
+  scope: RateLimitScope;
+  timeoutMs: number;
+};
+
+export type ConcurrencyContext = {
+  sessionKey?: string;
+  agentId?: string;
+  toolCallId?: string;
+};
+
+export type ConcurrencyHit = {
+  rule: NormalizedConcurrencyRule;
+  scopeKey: string;
+  /** Calls already in flight, before this one. */
+  inFlight: number;
+};
+
+export type ConcurrencyTracker = {
+  evaluate: (toolName: string, context: ConcurrencyContext, now?: number) => ConcurrencyHit | null;
+  acquire: (toolName: string, context: ConcurrencyContext, now?: number) => void;
+  release: (toolName: string, context: ConcurrencyContext) => boolean;
+  status: (now?: number) => ConcurrencyHit[];
+};
+
+type InFlightCall = {
+  toolName: string;
+  sessionKey?: string;
+  agentId?: string;
+  toolCallId?: string;
+  startedAt: number;
+};
+
+const DEFAULT_TIMEOUT_SEC = 600;
+
+// Normalize and validate concurrency limits from plugin config.
+export function normalizeConcurrencyRules(raw: unknown): NormalizedConcurrencyRule[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const rules: NormalizedConcurrencyRule[] = [];
+  raw.forEach((entry, index) => {
+    if (!entry || typeof entry !== "object") {
+      return;
+    }
+    const record = entry as Record<string, unknown>;
+    const toolNameRaw = typeof record.toolName === "string" ? record.toolName.trim() : "";
+    if (!toolNameRaw) {
+      return;
+    }
+    const normalizedToolName = normalizeToolName(toolNameRaw);
+    const matchAll = normalizedToolName === "*" || normalizedToolName === "all";
+    const maxInFlight = Number(record.maxInFlight);
+    if (!Number.isFinite(maxInFlight) || maxInFlight <= 0) {
+      return;
+    }
+    const timeoutSec = Number(record.timeoutSec);
+    const actionRaw = typeof record.action === "string" ? record.action.trim().toUpperCase() : "";
+    rules.push({
+      id: `${matchAll ? "*" : normalizedToolName}:${index}`,
+      toolName: normalizedToolName,
+      matchAll,
+      maxInFlight: Math.floor(maxInFlight),
+      action: actionRaw === "ASK" ? "ASK" : "DENY",
+      scope: record.scope === "global" || record.scope === "session" ? record.scope : "agent",
+      timeoutMs: Math.floor((Number.isFinite(timeoutSec) && timeoutSec > 0 ? timeoutSec : DEFAULT_TIMEOUT_SEC) * 1000)
+    });
+  });
+  return rules;
+}
+
+// Create an in-memory tracker of calls between before_tool_call and their
+// tool_result_persist. Calls whose result never arrives expire after timeoutSec.
+export function createConcurrencyTracker(rules: NormalizedConcurrencyRule[]): ConcurrencyTracker {
+  let calls: InFlightCall[] = [];
+  const maxTimeoutMs = Math.max(0, ...rules.map((rule) => rule.timeoutMs));
+
+  const live = (now: number) => {
+    calls = calls.filter((call) => now - call.startedAt < maxTimeoutMs);
+    return calls;
+  };
+
+  const countFor = (rule: NormalizedConcurrencyRule, scopeKey: string, now: number) =>
+    live(now).filter(
+      (call) =>
+        now - call.startedAt < rule.timeoutMs &&
+        matchesRule(rule, call.toolName) &&
+        resolveScopeKey(rule.scope, call) === scopeKey
+    ).length;
+
+  const evaluate = (toolName: string, context: ConcurrencyContext, now = Date.now()): ConcurrencyHit | null => {
+    let hit: ConcurrencyHit | null = null;
+    for (const rule of rules) {
+      if (!matchesRule(rule, toolName)) {
+        continue;
+      }
+      const scopeKey = resolveScopeKey(rule.scope, context);
+      const inFlight = countFor(rule, scopeKey, now);
+      if (inFlight >= rule.maxInFlight && (!hit || decisionRank(rule.action) > decisionRank(hit.rule.action))) {
+        hit = { rule, scopeKey, inFlight };
+      }
+    }
+    return hit;
+  };
+
+  const acquire = (toolName: string, context: ConcurrencyContext, now = Date.now()) => {
+    if (!rules.some((rule) => matchesRule(rule, toolName))) {
+      return;
+    }
+    const call: InFlightCall = { toolName: normalizeToolName(toolName), startedAt: now };
+    if (context.sessionKey) {
+      call.sessionKey = context.sessionKey;
+    }
+    if (context.agentId) {
+      call.agentId = context.agentId;
+    }
+    if (context.toolCallId) {
+      call.toolCallId = context.toolCallId;
+    }
+    live(now).push(call);
+  };
+
+  // Match by toolCallId; without one, release the session's oldest call to the same tool.
+  const release = (toolName: string, context: ConcurrencyContext) => {
+    const normalizedTool = normalizeToolName(toolName);
+    const index = context.toolCallId
+      ? calls.findIndex((call) => call.toolCallId === context.toolCallId)
+      : calls.findIndex((call) => call.toolName === normalizedTool && call.sessionKey === context.sessionKey);
+    if (index < 0) {
+      return false;
+    }
+    calls.splice(index, 1);
+    return true;
+  };
+
+  const status = (now = Date.now()) => {
+    const entries: ConcurrencyHit[] = [];
+    for (const rule of rules) {
+      const scopeKeys = new Set(
+        live(now)
+          .filter((call) => matchesRule(rule, call.toolName))
+          .map((call) => resolveScopeKey(rule.scope, call))
+      );
+      for (const scopeKey of scopeKeys) {
+        const inFlight = countFor(rule, scopeKey, now);
+        if (inFlight > 0) {
+          entries.push({ rule, scopeKey, inFlight });
+        }
+      }
+    }
+    return entries;
+  };
+
+  return { evaluate, acquire, release, status };
+}
+
+function matchesRule(rule: NormalizedConcurrencyRule, toolName: string): boolean {
+  return rule.matchAll || matchToolNamePattern(rule.toolName, normalizeToolName(toolName));
+}
+
+function resolveScopeKey(scope: RateLimitScope, context: ConcurrencyContext): string {
+  if (scope === "session") {
+    return `session:${context.sessionKey ?? "no-session"}`;
+  }
+  if (scope === "agent") {
+    return `agent:${context.agentId ?? "no-agent"}`;
+  }
+  return "global";
+}
+
+function decisionRank(decision: Decision): number {
+  return decision === "DENY" ? 2 : decision === "ASK" ? 1 : 0;
+}
@@ -2,17 +2,85 @@ import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
 import { parse as parseYaml } from "yaml";
-import type { Decision, InjectionMode, LogLevel, Policy, RedactionMode, ToolRule } from "@mindaiproject/firewall-core";
-import { normalizeToolName } from "@mindaiproject/firewall-core";
+import type {
+  CommandPolicy,
+  CommandRule,
+  Decision,
+  DlpAction,
+  EscalationLevel,
+  EscalationSettings,
+  InjectionMode,
+  LogLevel,
+  ParamCondition,
+  ParamRule,
+  Policy,
+  PolicyOverlay,
+  RedactionDetectorSpec,
+  RedactionMode,
+  RedactionSettings,
+  Risk,
+  ScheduleRule,
+  SequenceRule,
+  SequenceStep,
+  PathParamLocation,
+  TaintSettings,
+  ToolRule,
+  WorkspaceScopes
+} from "@mindaiproject/firewall-core";
+import {
+  isValidParamPattern,
+  isValidTimezone,
+  normalizeToolName,
+  parseScheduleDays,
+  parseScheduleHours
+} from "@mindaiproject/firewall-core";
+import { BUILTIN_DETECTORS, checkDetectorPattern } from "@mindaiproject/firewall-redaction";
+import { formatPolicyIssue, parsePolicyYaml } from "./policy-schema.js";
+import { DEFAULT_TAINT_TTL_SEC } from "./taint.js";
+import { DEFAULT_ESCALATION_COOLDOWN_SEC, DEFAULT_ESCALATION_WINDOW_SEC } from "./escalation.js";
 
 export type PresetName = "strict" | "standard" | "dev";
 
+const RISK_LEVELS = new Set<string>(["read", "write", "critical", "unknown"]);
+const SUSPICION_SIGNALS = new Set<string>(["deny", "ask", "injection", "path_guard"]);
+
 export type LoadedPolicy = {
   policy: Policy;
   warnings: string[];
+  /** Schema and parse errors with file:line:column locations. */
+  errors: string[];
+  /** Resolution chain joined with " -> " (presets, extended files, policy file, includes). */
   source: string;
+  /** Every layer that was merged, in merge order. */
+  chain: string[];
+  /** Policy files and include directories read while resolving, for change watching. */
+  watchPaths: string[];
+};
+
+// Raw policy file shape: a partial policy plus composition keys.
+type PolicyFile = Partial<Policy> & {
+  extends?: unknown;
+  include?: unknown;
 };
 
+type PolicyLayer = {
+  source: string;
+  policy: Partial<Policy>;
+};
+
+const PRESET_PREFIX = "preset:";
+
+// Thrown by strict loads when the policy has schema or parse errors.
+export class PolicyValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid firewall policy:\n${errors.join("\n")}`);
+    this.name = "PolicyValidationError";
+    this.errors = errors;
+  }
+}
+
 const DEFAULT_POLICY_PATH = path.join(os.homedir(), ".openclaw", "firewall", "firewall.yaml");
 
 // OpenClaw tool baseline mapping from docs/plan.md.
@@ -67,24 +135,41 @@ export function getDefaultPolicyPath(): string {
 }
 
 // Load policy from preset + optional override path.
+// The override file may `extends:` presets or other files and `include:` a
+// directory of fragments; layers merge in order on top of the preset.
+// With `strict`, any schema or parse error throws PolicyValidationError instead
+// of degrading to preset defaults. With `requireFile`, a missing policy file is an
+// error rather than a fall back to the preset.
 export function loadPolicyConfig(params: {
   preset?: PresetName;
   policyPath?: string;
+  strict?: boolean;
+  requireFile?: boolean;
 }): LoadedPolicy {
   const warnings: string[] = [];
+  const errors: string[] = [];
   const presetName = params.preset ?? "standard";
   const presetPolicy = loadPresetPolicy(presetName, warnings);
 
   const policyPath = params.policyPath ?? DEFAULT_POLICY_PATH;
-  const overridePolicy = loadPolicyFile(policyPath, warnings);
+  const watchPaths: string[] = [];
+  const resolution: PolicyResolution = { warnings, errors, watchPaths, requireFile: params.requireFile === true };
+  const layers = resolvePolicyLayers(policyPath, resolution, []);
+  if (params.strict && errors.length > 0) {
+    throw new PolicyValidationError(errors);
+  }
 
-  const merged = mergePolicies(presetPolicy, overridePolicy ?? {});
+  const merged = layers.reduce((acc, layer) => mergePolicies(acc, layer.policy), presetPolicy);
   const normalized = normalizePolicy(merged, warnings);
+  const chain = [`${PRESET_PREFIX}${presetName}`, ...layers.map((layer) => layer.source)];
 
   return {
     policy: normalized,
     warnings,
-    source: overridePolicy ? policyPath : `preset:${presetName}`
+    errors,
+    source: chain.join(" -> "),
+    chain,
+    watchPaths
   };
 }
 
@@ -107,18 +192,130 @@ function loadPresetPolicy(name: PresetName, warnings: string[]): Policy {
   }
 }
 
-function loadPolicyFile(policyPath: string, warnings: string[]): Partial<Policy> | null {
+function loadPresetLayer(name: string, warnings: string[]): Partial<Policy> | null {
+  if (name !== "strict" && name !== "standard" && name !== "dev") {
+    warnings.push(`Unknown preset in extends: ${name}; skipping.`);
+    return null;
+  }
+  try {
+    const raw = fs.readFileSync(new URL(`../presets/${name}.yaml`, import.meta.url), "utf8");
+    return (parseYaml(raw) as Partial<Policy> | null) ?? {};
+  } catch (err) {
+    warnings.push(`Failed to load preset ${name}; skipping.`);
+    return null;
+  }
+}
+
+type PolicyResolution = {
+  warnings: string[];
+  errors: string[];
+  watchPaths: string[];
+  requireFile: boolean;
+};
+
+function loadPolicyFile(policyPath: string, resolution: PolicyResolution): PolicyFile | null {
   if (!fs.existsSync(policyPath)) {
-    warnings.push(`Policy file not found at ${policyPath}; using preset defaults.`);
+    if (resolution.requireFile) {
+      resolution.errors.push(`Policy file not found at ${policyPath}.`);
+    } else {
+      resolution.warnings.push(`Policy file not found at ${policyPath}; using preset defaults.`);
+    }
     return null;
   }
+  let raw: string;
   try {
-    const raw = fs.readFileSync(policyPath, "utf8");
-    return parseYaml(raw) as Partial<Policy>;
+    raw = fs.readFileSync(policyPath, "utf8");
   } catch (err) {
-    warnings.push(`Failed to parse policy file at ${policyPath}; using preset defaults.`);
+    resolution.errors.push(`${policyPath}: failed to read policy file (${String(err)}).`);
+    return null;
+  }
+  const parsed = parsePolicyYaml(raw, policyPath);
+  resolution.errors.push(...parsed.issues.map(formatPolicyIssue));
+  if (parsed.parseFailed) {
+    return null;
+  }
+  if (parsed.value !== null && (typeof parsed.value !== "object" || Array.isArray(parsed.value))) {
     return null;
   }
+  return (parsed.value as PolicyFile | null) ?? {};
+}
+
+// Expand a policy file into ordered layers: extends (in order), the file itself,
+// then include fragments (sorted by file name). `stack` holds the files being
+// resolved so cycles are reported instead of recursing forever.
+function resolvePolicyLayers(policyPath: string, resolution: PolicyResolution, stack: string[]): PolicyLayer[] {
+  const { warnings } = resolution;
+  const absolute = path.resolve(policyPath);
+  if (stack.includes(absolute)) {
+    resolution.errors.push(`Policy extends cycle detected (${[...stack, absolute].join(" -> ")}); skipping ${absolute}.`);
+    return [];
+  }
+  addWatchPath(resolution.watchPaths, absolute);
+  if (stack.length > 0 && !fs.existsSync(absolute)) {
+    resolution.errors.push(`Policy file ${absolute} referenced by ${stack[stack.length - 1]} not found; skipping.`);
+    return [];
+  }
+  const parsed = loadPolicyFile(absolute, resolution);
+  if (!parsed) {
+    return [];
+  }
+  const { extends: extendsValue, include, ...body } = parsed;
+  const nextStack = [...stack, absolute];
+  const baseDir = path.dirname(absolute);
+  const layers: PolicyLayer[] = [];
+
+  for (const entry of readStringList(extendsValue, `${absolute}: extends`, warnings)) {
+    if (entry.startsWith(PRESET_PREFIX)) {
+      const preset = loadPresetLayer(entry.slice(PRESET_PREFIX.length), warnings);
+      if (preset) {
+        layers.push({ source: entry, policy: preset });
+      }
+      continue;
+    }
+    layers.push(...resolvePolicyLayers(path.resolve(baseDir, entry), resolution, nextStack));
+  }
+
+  layers.push({ source: stack.length === 0 ? policyPath : absolute, policy: body });
+
+  for (const entry of readStringList(include, `${absolute}: include`, warnings)) {
+    const includeDir = path.resolve(baseDir, entry);
+    addWatchPath(resolution.watchPaths, includeDir);
+    for (const fragment of listPolicyFragments(includeDir, resolution.errors)) {
+      layers.push(...resolvePolicyLayers(fragment, resolution, nextStack));
+    }
+  }
+  return layers;
+}
+
+function addWatchPath(watchPaths: string[], entry: string): void {
+  if (!watchPaths.includes(entry)) {
+    watchPaths.push(entry);
+  }
+}
+
+function listPolicyFragments(dir: string, errors: string[]): string[] {
+  try {
+    return fs
+      .readdirSync(dir)
+      .filter((name) => name.endsWith(".yaml") || name.endsWith(".yml"))
+      .sort()
+      .map((name) => path.join(dir, name));
+  } catch (err) {
+    errors.push(`Policy include directory not readable at ${dir}; skipping.`);
+    return [];
+  }
+}
+
+function readStringList(value: unknown, label: string, warnings: string[]): string[] {
+  if (typeof value === "undefined" || value === null) {
+    return [];
+  }
+  const list = Array.isArray(value) ? value : [value];
+  const entries = list.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0);
+  if (entries.length !== list.length) {
+    warnings.push(`${label} must be a string or list of strings; ignoring invalid entries.`);
+  }
+  return entries.map((entry) => entry.trim());
 }
 
 function normalizeDecision(value: unknown, fallback: Decision): Decision {
@@ -143,6 +340,13 @@ function normalizeDecisionOptional(value: unknown): Decision | undefined {
   return undefined;
 }
 
+function normalizeDlpAction(value: unknown): DlpAction | undefined {
+  if (typeof value === "string" && value.trim().toUpperCase() === "REWRITE") {
+    return "REWRITE";
+  }
+  return normalizeDecisionOptional(value);
+}
+
 function normalizeLogLevel(value: unknown, fallback: LogLevel): LogLevel {
   if (value === "safe" || value === "debug") {
     return value;
@@ -177,7 +381,10 @@ function mergePolicies(base: Policy, override: Partial<Policy>): Policy {
       redaction: normalizeRedaction(override.defaults?.redaction, base.defaults.redaction),
       injection: {
         mode: normalizeInjectionMode(override.defaults?.injection?.mode, base.defaults.injection.mode)
-      }
+      },
+      ...mergeTaintSettings(base.defaults.taint, override.defaults?.taint),
+      ...mergeSensitivePaths(base.defaults.sensitivePaths, override.defaults?.sensitivePaths),
+      ...mergeEscalationSettings(base.defaults.escalation, override.defaults?.escalation)
     },
     risk: {
       read: normalizeDecision(override.risk?.read, base.risk.read),
@@ -185,8 +392,156 @@ function mergePolicies(base: Policy, override: Partial<Policy>): Policy {
       critical: normalizeDecision(override.risk?.critical, base.risk.critical),
       unknown: normalizeDecision(override.risk?.unknown, base.risk.unknown)
     },
-    tools: mergeToolRules(base.tools ?? [], override.tools ?? [])
+    ...mergeRiskSchedule(base.riskSchedule, override.riskSchedule),
+    tools: mergeToolRules(base.tools ?? [], override.tools ?? []),
+    ...mergeOverlaySections(base, override),
+    ...mergeSequenceRules(base.sequences, override.sequences),
+    ...mergeWorkspaces(base.workspaces, override.workspaces),
+    ...mergeRedactionSettings(base.redaction, override.redaction)
+  };
+}
+
+// Risk schedules merge per risk level; an override list replaces the base list.
+function mergeRiskSchedule(
+  base: Policy["riskSchedule"],
+  override: unknown
+): Pick<Policy, "riskSchedule"> {
+  const merged = { ...base, ...asRecord(override) } as NonNullable<Policy["riskSchedule"]>;
+  return Object.keys(merged).length > 0 ? { riskSchedule: merged } : {};
+}
+
+// Sequence rules merge by id; an override rule replaces the base rule with the same id.
+function mergeSequenceRules(base: SequenceRule[] | undefined, override: unknown): { sequences?: SequenceRule[] } {
+  const merged = new Map<string, SequenceRule>();
+  for (const rule of [...(base ?? []), ...(Array.isArray(override) ? override : [])]) {
+    const id = asRecord(rule)?.id;
+    merged.set(typeof id === "string" && id ? id : `#${merged.size}`, rule as SequenceRule);
+  }
+  return merged.size > 0 ? { sequences: Array.from(merged.values()) } : {};
+}
+
+// Workspaces merge field by field; an override root list replaces the base list.
+function mergeWorkspaces(base: WorkspaceScopes | undefined, override: unknown): { workspaces?: WorkspaceScopes } {
+  const merged = { ...base, ...asRecord(override) } as WorkspaceScopes;
+  return Object.keys(merged).length > 0 ? { workspaces: merged } : {};
+}
+
+// Redaction detectors merge by id; disabled IDs add up across layers.
+function mergeRedactionSettings(base: RedactionSettings | undefined, override: unknown): { redaction?: RedactionSettings } {
+  const record = asRecord(override);
+  const detectors = new Map<string, RedactionDetectorSpec>();
+  for (const spec of [...(base?.detectors ?? []), ...(Array.isArray(record?.detectors) ? record.detectors : [])]) {
+    const id = asRecord(spec)?.id;
+    detectors.set(typeof id === "string" && id ? id : `#${detectors.size}`, spec as RedactionDetectorSpec);
+  }
+  const disable = [...(base?.disable ?? []), ...(Array.isArray(record?.disable) ? record.disable : [])];
+  const merged: RedactionSettings = {
+    ...(detectors.size > 0 ? { detectors: Array.from(detectors.values()) } : {}),
+    ...(disable.length > 0 ? { disable: Array.from(new Set(disable)) } : {})
+  };
+  return Object.keys(merged).length > 0 ? { redaction: merged } : {};
+}
+
+// Taint settings merge field by field; an override without an action keeps the base action.
+function mergeTaintSettings(base: TaintSettings | undefined, override: unknown): { taint?: TaintSettings } {
+  const record = asRecord(override);
+  if (!record) {
+    return base ? { taint: base } : {};
+  }
+  const ttlSec = Number(record.ttlSec);
+  const taint: TaintSettings = {
+    action: normalizeDecision(record.action, base?.action ?? "ASK"),
+    ttlSec: Number.isFinite(ttlSec) && ttlSec > 0 ? ttlSec : base?.ttlSec ?? DEFAULT_TAINT_TTL_SEC
+  };
+  const tools = Array.isArray(record.tools)
+    ? record.tools.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
+    : base?.tools;
+  if (tools) {
+    taint.tools = tools.map((entry) => normalizeToolName(entry));
+  }
+  return { taint };
+}
+
+function mergeSensitivePaths(base: boolean | undefined, override: unknown): { sensitivePaths?: boolean } {
+  const value = typeof override === "boolean" ? override : base;
+  return typeof value === "boolean" ? { sensitivePaths: value } : {};
+}
+
+// Escalation settings merge field by field; an override level list replaces the base list.
+function mergeEscalationSettings(
+  base: EscalationSettings | undefined,
+  override: unknown
+): { escalation?: EscalationSettings } {
+  const record = asRecord(override);
+  if (!record) {
+    return base ? { escalation: base } : {};
+  }
+  const levels = Array.isArray(record.levels) ? normalizeEscalationLevels(record.levels) : base?.levels ?? [];
+  if (levels.length === 0) {
+    return {};
+  }
+  const cooldownSec = Number(record.cooldownSec);
+  const windowSec = Number(record.windowSec);
+  const escalation: EscalationSettings = {
+    levels,
+    cooldownSec: Number.isFinite(cooldownSec) && cooldownSec > 0
+      ? cooldownSec
+      : base?.cooldownSec ?? DEFAULT_ESCALATION_COOLDOWN_SEC,
+    windowSec: Number.isFinite(windowSec) && windowSec > 0 ? windowSec : base?.windowSec ?? DEFAULT_ESCALATION_WINDOW_SEC
   };
+  const weights: NonNullable<EscalationSettings["weights"]> = { ...base?.weights };
+  for (const [signal, value] of Object.entries(asRecord(record.weights) ?? {})) {
+    const weight = Number(value);
+    if (SUSPICION_SIGNALS.has(signal) && Number.isFinite(weight) && weight >= 0) {
+      weights[signal as keyof typeof weights] = weight;
+    }
+  }
+  if (Object.keys(weights).length > 0) {
+    escalation.weights = weights;
+  }
+  return { escalation };
+}
+
+function normalizeEscalationLevels(raw: unknown[]): EscalationLevel[] {
+  const levels: EscalationLevel[] = [];
+  for (const entry of raw) {
+    const record = asRecord(entry);
+    const score = Number(record?.score);
+    const action = normalizeDecisionOptional(record?.action);
+    if (!record || !Number.isFinite(score) || score <= 0 || !action) {
+      continue;
+    }
+    const level: EscalationLevel = { score, action };
+    if (Array.isArray(record.risks)) {
+      level.risks = record.risks.filter((risk): risk is Risk => RISK_LEVELS.has(risk as string));
+    }
+    levels.push(level);
+  }
+  return levels.sort((a, b) => a.score - b.score);
+}
+
+// Overlay sections merge per key; an override entry replaces the base entry.
+function mergeOverlaySections(
+  base: Policy,
+  override: Partial<Policy>
+): Pick<Policy, "agents" | "sessions"> {
+  const merged: Pick<Policy, "agents" | "sessions"> = {};
+  const agents = { ...base.agents, ...asOverlayRecord(override.agents) };
+  const sessions = { ...base.sessions, ...asOverlayRecord(override.sessions) };
+  if (Object.keys(agents).length > 0) {
+    merged.agents = agents;
+  }
+  if (Object.keys(sessions).length > 0) {
+    merged.sessions = sessions;
+  }
+  return merged;
+}
+
+function asOverlayRecord(value: unknown): Record<string, PolicyOverlay> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {};
+  }
+  return value as Record<string, PolicyOverlay>;
 }
 
 function mergeToolRules(base: ToolRule[], override: ToolRule[]): ToolRule[] {
@@ -216,28 +571,635 @@ function normalizePolicy(policy: Policy, warnings: string[]): Policy {
   }
 
   for (const rule of policy.tools ?? []) {
-    if (!rule.name) {
-      warnings.push("Encountered tool rule with missing name; skipping.");
-      continue;
+    const next = normalizeToolRuleInput(rule, toolMap, warnings);
+    if (next) {
+      toolMap.set(next.name, next);
     }
-    const normalizedName = normalizeToolName(rule.name);
-    const existing = toolMap.get(normalizedName) ?? {};
-    const normalizedPathAction = normalizeDecisionOptional(rule.pathAction);
-    const allowPaths = Array.isArray(rule.allowPaths)
-      ? rule.allowPaths.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
-      : undefined;
-    const next = { ...existing, ...rule, name: normalizedName };
-    if (normalizedPathAction) {
-      next.pathAction = normalizedPathAction;
-    }
-    if (allowPaths) {
-      next.allowPaths = allowPaths;
-    }
-    toolMap.set(normalizedName, next);
   }
 
-  return {
+  const normalized: Policy = {
     ...policy,
     tools: Array.from(toolMap.values())
   };
+  delete normalized.agents;
+  delete normalized.sessions;
+  delete normalized.sequences;
+  delete normalized.riskSchedule;
+  delete normalized.workspaces;
+  delete normalized.redaction;
+  if (typeof policy.riskSchedule !== "undefined") {
+    const riskSchedule = normalizeRiskSchedule(policy.riskSchedule, warnings);
+    if (riskSchedule) {
+      normalized.riskSchedule = riskSchedule;
+    }
+  }
+  if (typeof policy.sequences !== "undefined") {
+    const sequences = normalizeSequenceRules(policy.sequences, warnings);
+    if (sequences.length > 0) {
+      normalized.sequences = sequences;
+    }
+  }
+  if (typeof policy.workspaces !== "undefined") {
+    const workspaces = normalizeWorkspaces(policy.workspaces, "workspaces", warnings);
+    if (workspaces) {
+      normalized.workspaces = workspaces;
+    }
+  }
+  if (typeof policy.redaction !== "undefined") {
+    const redaction = normalizeRedactionSettings(policy.redaction, warnings);
+    if (redaction) {
+      normalized.redaction = redaction;
+    }
+  }
+  const agents = normalizeOverlays(policy.agents, "agents", warnings);
+  if (agents) {
+    normalized.agents = agents;
+  }
+  const sessions = normalizeOverlays(policy.sessions, "sessions", warnings);
+  if (sessions) {
+    normalized.sessions = sessions;
+  }
+  return normalized;
+}
+
+// Normalize a tool rule from a policy file, layering it over any existing rule.
+function normalizeToolRuleInput(
+  rule: ToolRule,
+  toolMap: Map<string, ToolRule>,
+  warnings: string[]
+): ToolRule | null {
+  if (!rule || !rule.name) {
+    warnings.push("Encountered tool rule with missing name; skipping.");
+    return null;
+  }
+  const normalizedName = normalizeToolName(rule.name);
+  const existing = toolMap.get(normalizedName) ?? {};
+  const normalizedPathAction = normalizeDecisionOptional(rule.pathAction);
+  const allowPaths = Array.isArray(rule.allowPaths)
+    ? rule.allowPaths.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
+    : undefined;
+  const next = { ...existing, ...rule, name: normalizedName };
+  if (normalizedPathAction) {
+    next.pathAction = normalizedPathAction;
+  }
+  if (typeof rule.networkAction !== "undefined") {
+    const networkAction = normalizeDecisionOptional(rule.networkAction);
+    if (networkAction) {
+      next.networkAction = networkAction;
+    } else {
+      warnings.push(`Tool ${normalizedName}: invalid networkAction; ignoring.`);
+      delete next.networkAction;
+    }
+  }
+  if (typeof rule.dlpAction !== "undefined") {
+    const dlpAction = normalizeDlpAction(rule.dlpAction);
+    if (dlpAction) {
+      next.dlpAction = dlpAction;
+    } else {
+      warnings.push(`Tool ${normalizedName}: invalid dlpAction; ignoring.`);
+      delete next.dlpAction;
+    }
+  }
+  for (const key of ["denyPaths", "allowDomains", "denyDomains", "allowSchemes", "dlpDetectors"] as const) {
+    if (typeof rule[key] !== "undefined") {
+      next[key] = readStringList(rule[key], `Tool ${normalizedName}: ${key}`, warnings);
+    }
+  }
+  if (allowPaths) {
+    next.allowPaths = allowPaths;
+  }
+  if (typeof rule.pathParams !== "undefined") {
+    next.pathParams = normalizePathParams(rule.pathParams, normalizedName, warnings);
+  }
+  if (typeof rule.paramRules !== "undefined") {
+    next.paramRules = normalizeParamRules(rule.paramRules, normalizedName, warnings);
+  }
+  if (typeof rule.schedule !== "undefined") {
+    next.schedule = normalizeSchedule(rule.schedule, `Tool ${normalizedName}: schedule`, warnings);
+  }
+  if (typeof rule.commands !== "undefined") {
+    const commands = normalizeCommandPolicy(rule.commands, normalizedName, warnings);
+    if (commands) {
+      next.commands = commands;
+    } else {
+      delete next.commands;
+    }
+  }
+  return next;
+}
+
+function normalizeOverlays(
+  value: unknown,
+  section: "agents" | "sessions",
+  warnings: string[]
+): Record<string, PolicyOverlay> | undefined {
+  if (typeof value === "undefined" || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    warnings.push(`${section} must be a map of IDs to overlays; ignoring.`);
+    return undefined;
+  }
+  const overlays: Record<string, PolicyOverlay> = {};
+  for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+    const id = key.trim();
+    if (!id || !raw || typeof raw !== "object") {
+      warnings.push(`${section}.${key} is not a valid overlay; skipping.`);
+      continue;
+    }
+    overlays[id] = normalizeOverlay(raw as Record<string, unknown>, `${section}.${id}`, warnings);
+  }
+  return Object.keys(overlays).length > 0 ? overlays : undefined;
+}
+
+function normalizeOverlay(raw: Record<string, unknown>, label: string, warnings: string[]): PolicyOverlay {
+  const overlay: PolicyOverlay = {};
+  const risk = asRecord(raw.risk);
+  if (risk) {
+    const next: NonNullable<PolicyOverlay["risk"]> = {};
+    for (const level of ["read", "write", "critical", "unknown"] as const) {
+      const decision = normalizeDecisionOptional(risk[level]);
+      if (decision) {
+        next[level] = decision;
+      }
+    }
+    overlay.risk = next;
+  }
+  const defaults = asRecord(raw.defaults);
+  if (defaults) {
+    const next: NonNullable<PolicyOverlay["defaults"]> = {};
+    if (typeof defaults.denyUnknownTools === "boolean") {
+      next.denyUnknownTools = defaults.denyUnknownTools;
+    }
+    const unknownToolAction = normalizeDecisionOptional(defaults.unknownToolAction);
+    if (unknownToolAction) {
+      next.unknownToolAction = unknownToolAction;
+    }
+    if (defaults.log === "safe" || defaults.log === "debug") {
+      next.log = defaults.log;
+    }
+    if (defaults.redaction === "standard" || defaults.redaction === "strict" || defaults.redaction === "off") {
+      next.redaction = defaults.redaction;
+    }
+    const injectionMode = asRecord(defaults.injection)?.mode;
+    if (injectionMode === "shadow" || injectionMode === "alert" || injectionMode === "block") {
+      next.injection = { mode: injectionMode };
+    }
+    const { taint } = mergeTaintSettings(undefined, defaults.taint);
+    if (taint) {
+      next.taint = taint;
+    }
+    if (typeof defaults.sensitivePaths === "boolean") {
+      next.sensitivePaths = defaults.sensitivePaths;
+    }
+    const { escalation } = mergeEscalationSettings(undefined, defaults.escalation);
+    if (escalation) {
+      next.escalation = escalation;
+    }
+    overlay.defaults = next;
+  }
+  if (Array.isArray(raw.tools)) {
+    const toolMap = new Map<string, ToolRule>();
+    for (const rule of raw.tools as ToolRule[]) {
+      const next = normalizeToolRuleInput(rule, toolMap, warnings);
+      if (next) {
+        toolMap.set(next.name, next);
+      }
+    }
+    overlay.tools = Array.from(toolMap.values());
+  } else if (typeof raw.tools !== "undefined") {
+    warnings.push(`${label}.tools must be a list; ignoring.`);
+  }
+  if (typeof raw.workspaces !== "undefined") {
+    const workspaces = normalizeWorkspaces(raw.workspaces, `${label}.workspaces`, warnings);
+    if (workspaces) {
+      overlay.workspaces = workspaces;
+    }
+  }
+  return overlay;
+}
+
+function normalizeWorkspaces(value: unknown, label: string, warnings: string[]): WorkspaceScopes | undefined {
+  const record = asRecord(value);
+  if (!record) {
+    warnings.push(`${label} must be an object; ignoring.`);
+    return undefined;
+  }
+  const workspaces: WorkspaceScopes = {};
+  for (const scope of ["readOnly", "readWrite", "noDelete"] as const) {
+    if (typeof record[scope] === "undefined") {
+      continue;
+    }
+    const roots = Array.isArray(record[scope])
+      ? (record[scope] as unknown[]).filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
+      : [];
+    if (roots.length === 0) {
+      warnings.push(`${label}.${scope} must be a list of paths; ignoring.`);
+      continue;
+    }
+    workspaces[scope] = roots.map((entry) => entry.trim());
+  }
+  if (typeof record.action !== "undefined") {
+    const action = normalizeDecisionOptional(record.action);
+    if (action) {
+      workspaces.action = action;
+    } else {
+      warnings.push(`${label}.action must be ALLOW, DENY, or ASK; ignoring.`);
+    }
+  }
+  if (!workspaces.readOnly && !workspaces.readWrite && !workspaces.noDelete) {
+    warnings.push(`${label} declares no roots; ignoring.`);
+    return undefined;
+  }
+  return workspaces;
+}
+
+// Custom detectors need an id and a pattern that compiles; disabled IDs must name
+// a built-in detector.
+function normalizeRedactionSettings(value: unknown, warnings: string[]): RedactionSettings | undefined {
+  const record = asRecord(value);
+  if (!record) {
+    warnings.push("redaction must be an object; ignoring.");
+    return undefined;
+  }
+  const settings: RedactionSettings = {};
+  if (typeof record.detectors !== "undefined") {
+    if (!Array.isArray(record.detectors)) {
+      warnings.push("redaction.detectors must be a list; ignoring.");
+    } else {
+      const detectors = record.detectors.flatMap((entry, index) => {
+        const detector = normalizeDetectorSpec(entry, `redaction.detectors[${index}]`, warnings);
+        return detector ? [detector] : [];
+      });
+      if (detectors.length > 0) {
+        settings.detectors = detectors;
+      }
+    }
+  }
+  if (typeof record.disable !== "undefined") {
+    const builtinIds = new Set(BUILTIN_DETECTORS.map((detector) => detector.id));
+    const disable = readStringList(record.disable, "redaction.disable", warnings).filter((id) => {
+      if (!builtinIds.has(id)) {
+        warnings.push(`redaction.disable: unknown detector ${id}; ignoring.`);
+        return false;
+      }
+      return true;
+    });
+    if (disable.length > 0) {
+      settings.disable = disable;
+    }
+  }
+  return settings.detectors || settings.disable ? settings : undefined;
+}
+
+function normalizeDetectorSpec(value: unknown, label: string, warnings: string[]): RedactionDetectorSpec | undefined {
+  const record = asRecord(value);
+  const id = typeof record?.id === "string" ? record.id.trim() : "";
+  if (!record || !/^[A-Za-z0-9_.-]+$/.test(id)) {
+    warnings.push(`${label} needs an id of letters, digits, "_", "-", or "."; skipping.`);
+    return undefined;
+  }
+  const spec: RedactionDetectorSpec = { id, pattern: typeof record.pattern === "string" ? record.pattern : "" };
+  if (typeof record.flags === "string") {
+    spec.flags = record.flags;
+  }
+  const patternProblem = spec.pattern ? checkDetectorPattern(spec) : "has an invalid pattern";
+  if (patternProblem) {
+    warnings.push(`${label} (${id}) ${patternProblem}; skipping.`);
+    return undefined;
+  }
+  if (typeof record.modes !== "undefined") {
+    const modes = Array.isArray(record.modes) ? record.modes : [record.modes];
+    if (modes.length === 0 || modes.some((mode) => mode !== "standard" && mode !== "strict")) {
+      warnings.push(`${label} (${id}) modes must be standard and/or strict; skipping.`);
+      return undefined;
+    }
+    spec.modes = modes as NonNullable<RedactionDetectorSpec["modes"]>;
+  }
+  if (typeof record.replacement !== "undefined") {
+    if (record.replacement !== "hash" && record.replacement !== "label" && record.replacement !== "mask") {
+      warnings.push(`${label} (${id}) replacement must be hash, label, or mask; skipping.`);
+      return undefined;
+    }
+    spec.replacement = record.replacement;
+  }
+  if (typeof record.dlp === "boolean") {
+    spec.dlp = record.dlp;
+  }
+  return spec;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return undefined;
+  }
+  return value as Record<string, unknown>;
+}
+
+// Path param locations: a location string, or `{ field, operation }`.
+function normalizePathParams(value: unknown, toolName: string, warnings: string[]): PathParamLocation[] {
+  if (!Array.isArray(value)) {
+    warnings.push(`Tool ${toolName}: pathParams must be a list; ignoring.`);
+    return [];
+  }
+  const locations: PathParamLocation[] = [];
+  value.forEach((entry, index) => {
+    const label = `Tool ${toolName}: pathParams[${index}]`;
+    const record = typeof entry === "string" ? { field: entry } : asRecord(entry);
+    const field = typeof record?.field === "string" ? record.field.trim() : "";
+    if (!field) {
+      warnings.push(`${label} has no field; skipping.`);
+      return;
+    }
+    const location: PathParamLocation = { field };
+    if (typeof record?.operation !== "undefined") {
+      if (record.operation !== "read" && record.operation !== "write" && record.operation !== "delete") {
+        warnings.push(`${label} has an invalid operation; skipping.`);
+        return;
+      }
+      location.operation = record.operation;
+    }
+    locations.push(location);
+  });
+  return locations;
+}
+
+function normalizeParamRules(value: unknown, toolName: string, warnings: string[]): ParamRule[] {
+  if (!Array.isArray(value)) {
+    warnings.push(`Tool ${toolName}: paramRules must be a list; ignoring.`);
+    return [];
+  }
+  const rules: ParamRule[] = [];
+  value.forEach((entry, index) => {
+    const label = `Tool ${toolName}: paramRules[${index}]`;
+    if (!entry || typeof entry !== "object") {
+      warnings.push(`${label} is not an object; skipping.`);
+      return;
+    }
+    const record = entry as Record<string, unknown>;
+    const action = normalizeDecisionOptional(record.action);
+    if (!action) {
+      warnings.push(`${label} has no valid action; skipping.`);
+      return;
+    }
+    const rawConditions = Array.isArray(record.when) ? record.when : record.when ? [record.when] : [];
+    const when: ParamCondition[] = [];
+    for (const raw of rawConditions) {
+      const condition = normalizeParamCondition(raw, label, warnings);
+      if (!condition) {
+        return;
+      }
+      when.push(condition);
+    }
+    if (when.length === 0) {
+      warnings.push(`${label} has no conditions; skipping.`);
+      return;
+    }
+    const rule: ParamRule = { when, action };
+    if (typeof record.reason === "string" && record.reason.trim()) {
+      rule.reason = record.reason.trim();
+    }
+    rules.push(rule);
+  });
+  return rules;
+}
+
+function normalizeRiskSchedule(value: unknown, warnings: string[]): Policy["riskSchedule"] | undefined {
+  const record = asRecord(value);
+  if (!record) {
+    warnings.push("riskSchedule must be a map of risk levels to schedules; ignoring.");
+    return undefined;
+  }
+  const riskSchedule: NonNullable<Policy["riskSchedule"]> = {};
+  for (const [key, raw] of Object.entries(record)) {
+    if (key !== "read" && key !== "write" && key !== "critical" && key !== "unknown") {
+      warnings.push(`riskSchedule.${key} is not a risk level; ignoring.`);
+      continue;
+    }
+    const schedule = normalizeSchedule(raw, `riskSchedule.${key}`, warnings);
+    if (schedule.length > 0) {
+      riskSchedule[key] = schedule;
+    }
+  }
+  return Object.keys(riskSchedule).length > 0 ? riskSchedule : undefined;
+}
+
+// Invalid entries are dropped with a warning; the rest keep their order.
+function normalizeSchedule(value: unknown, label: string, warnings: string[]): ScheduleRule[] {
+  if (!Array.isArray(value)) {
+    warnings.push(`${label} must be a list; ignoring.`);
+    return [];
+  }
+  const schedule: ScheduleRule[] = [];
+  value.forEach((entry, index) => {
+    const entryLabel = `${label}[${index}]`;
+    const record = asRecord(entry);
+    const action = normalizeDecisionOptional(record?.action);
+    if (!record || !action) {
+      warnings.push(`${entryLabel} has no valid action; skipping.`);
+      return;
+    }
+    const rule: ScheduleRule = { action };
+    if (typeof record.days !== "undefined") {
+      const days = Array.isArray(record.days) ? record.days.map(String) : String(record.days);
+      if (!parseScheduleDays(days)) {
+        warnings.push(`${entryLabel} has invalid days; skipping.`);
+        return;
+      }
+      rule.days = days;
+    }
+    if (typeof record.hours !== "undefined") {
+      if (typeof record.hours !== "string" || !parseScheduleHours(record.hours)) {
+        warnings.push(`${entryLabel} has invalid hours (expected HH:MM-HH:MM); skipping.`);
+        return;
+      }
+      rule.hours = record.hours;
+    }
+    if (typeof record.timezone !== "undefined") {
+      if (typeof record.timezone !== "string" || !isValidTimezone(record.timezone)) {
+        warnings.push(`${entryLabel} has an unknown timezone; skipping.`);
+        return;
+      }
+      rule.timezone = record.timezone;
+    }
+    schedule.push(rule);
+  });
+  return schedule;
+}
+
+function normalizeSequenceRules(value: unknown, warnings: string[]): SequenceRule[] {
+  if (!Array.isArray(value)) {
+    warnings.push("sequences must be a list; ignoring.");
+    return [];
+  }
+  const rules: SequenceRule[] = [];
+  value.forEach((entry, index) => {
+    const record = asRecord(entry);
+    const id = typeof record?.id === "string" && record.id.trim() ? record.id.trim() : `sequence-${index + 1}`;
+    const label = `sequences[${index}] (${id})`;
+    if (!record) {
+      warnings.push(`${label} is not an object; skipping.`);
+      return;
+    }
+    const action = normalizeDecisionOptional(record.action);
+    if (!action) {
+      warnings.push(`${label} has no valid action; skipping.`);
+      return;
+    }
+    const rawSteps = Array.isArray(record.steps) ? record.steps : [];
+    const steps: SequenceStep[] = [];
+    for (const [stepIndex, rawStep] of rawSteps.entries()) {
+      const step = normalizeSequenceStep(rawStep, `${label}.steps[${stepIndex}]`, warnings);
+      if (!step) {
+        return;
+      }
+      steps.push(step);
+    }
+    if (steps.length < 2) {
+      warnings.push(`${label} needs at least two steps; skipping.`);
+      return;
+    }
+    const rule: SequenceRule = { id, steps, action };
+    const withinSec = Number(record.withinSec);
+    if (typeof record.withinSec !== "undefined") {
+      if (Number.isFinite(withinSec) && withinSec > 0) {
+        rule.withinSec = withinSec;
+      } else {
+        warnings.push(`${label} has an invalid withinSec; ignoring.`);
+      }
+    }
+    if (typeof record.reason === "string" && record.reason.trim()) {
+      rule.reason = record.reason.trim();
+    }
+    rules.push(rule);
+  });
+  return rules;
+}
+
+function normalizeSequenceStep(value: unknown, label: string, warnings: string[]): SequenceStep | null {
+  const record = typeof value === "string" ? { tool: value } : asRecord(value);
+  const tool = typeof record?.tool === "string" ? record.tool.trim() : "";
+  if (!record || !tool) {
+    warnings.push(`${label} has no tool; skipping rule.`);
+    return null;
+  }
+  const step: SequenceStep = { tool: normalizeToolName(tool) };
+  const rawConditions = Array.isArray(record.when) ? record.when : record.when ? [record.when] : [];
+  if (rawConditions.length > 0) {
+    const when: ParamCondition[] = [];
+    for (const raw of rawConditions) {
+      const condition = normalizeParamCondition(raw, label, warnings);
+      if (!condition) {
+        return null;
+      }
+      when.push(condition);
+    }
+    step.when = when;
+  }
+  return step;
+}
+
+function normalizeCommandPolicy(value: unknown, toolName: string, warnings: string[]): CommandPolicy | undefined {
+  const record = asRecord(value);
+  if (!record) {
+    warnings.push(`Tool ${toolName}: commands must be a map; ignoring.`);
+    return undefined;
+  }
+  if (toolName !== "exec") {
+    warnings.push(`Tool ${toolName}: commands only applies to exec; ignoring.`);
+    return undefined;
+  }
+  const commands: CommandPolicy = {};
+  for (const list of ["allow", "ask", "deny"] as const) {
+    if (typeof record[list] !== "undefined") {
+      commands[list] = readStringList(record[list], `Tool ${toolName}: commands.${list}`, warnings);
+    }
+  }
+  const defaultAction = normalizeDecisionOptional(record.defaultAction);
+  if (defaultAction) {
+    commands.defaultAction = defaultAction;
+  }
+  const unparsedAction = normalizeDecisionOptional(record.unparsedAction);
+  if (unparsedAction) {
+    commands.unparsedAction = unparsedAction;
+  }
+  if (Array.isArray(record.rules)) {
+    commands.rules = record.rules
+      .map((entry, index) => normalizeCommandRule(entry, `Tool ${toolName}: commands.rules[${index}]`, warnings))
+      .filter((rule): rule is CommandRule => rule !== null);
+  } else if (typeof record.rules !== "undefined") {
+    warnings.push(`Tool ${toolName}: commands.rules must be a list; ignoring.`);
+  }
+  return commands;
+}
+
+function normalizeCommandRule(value: unknown, label: string, warnings: string[]): CommandRule | null {
+  const record = asRecord(value);
+  if (!record) {
+    warnings.push(`${label} is not an object; skipping.`);
+    return null;
+  }
+  const binary = typeof record.binary === "string" ? record.binary.trim() : "";
+  const action = normalizeDecisionOptional(record.action);
+  if (!binary || !action) {
+    warnings.push(`${label} needs a binary and a valid action; skipping.`);
+    return null;
+  }
+  const rule: CommandRule = { binary, action };
+  if (typeof record.args !== "undefined") {
+    rule.args = readStringList(record.args, `${label}.args`, warnings);
+  }
+  if (typeof record.matches === "string") {
+    if (!isValidParamPattern(record.matches)) {
+      warnings.push(`${label} has an invalid regex; skipping.`);
+      return null;
+    }
+    rule.matches = record.matches;
+  }
+  if (typeof record.reason === "string" && record.reason.trim()) {
+    rule.reason = record.reason.trim();
+  }
+  return rule;
+}
+
+function normalizeParamCondition(value: unknown, label: string, warnings: string[]): ParamCondition | null {
+  if (!value || typeof value !== "object") {
+    warnings.push(`${label} has a condition that is not an object; skipping rule.`);
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const field = typeof record.field === "string" ? record.field.trim() : "";
+  if (!field) {
+    warnings.push(`${label} has a condition without a field; skipping rule.`);
+    return null;
+  }
+  const condition: ParamCondition = { field };
+  if (typeof record.equals === "string" || typeof record.equals === "number" || typeof record.equals === "boolean") {
+    condition.equals = record.equals;
+  }
+  if (typeof record.prefix === "string") {
+    condition.prefix = record.prefix;
+  }
+  if (typeof record.matches === "string") {
+    if (!isValidParamPattern(record.matches)) {
+      warnings.push(`${label} has an invalid regex for ${field}; skipping rule.`);
+      return null;
+    }
+    condition.matches = record.matches;
+  }
+  if (typeof record.min === "number" && Number.isFinite(record.min)) {
+    condition.min = record.min;
+  }
+  if (typeof record.max === "number" && Number.isFinite(record.max)) {
+    condition.max = record.max;
+  }
+  if (typeof record.present === "boolean") {
+    condition.present = record.present;
+  }
+  // A condition with only a field would match every call, missing field included.
+  if (Object.keys(condition).length === 1) {
+    warnings.push(`${label} has a condition on ${field} without an operator; skipping rule.`);
+    return null;
+  }
+  return condition;
 }
@@ -0,0 +1,73 @@
+import { normalizeToolName, type NormalizedToolRule, type RedactionMode } from "@mindaiproject/firewall-core";
+import { BUILTIN_DETECTORS, redactValue, type RedactionDetector } from "@mindaiproject/firewall-redaction";
+
+export type DlpResult = {
+  detected: boolean;
+  /** Detector types that matched, e.g. ["openai_key"]. */
+  types: string[];
+  count: number;
+  /** Params with detected values replaced by redaction markers. */
+  redactedParams: Record<string, unknown>;
+};
+
+// Tools that send data out of the machine; DLP runs on them by default.
+export const OUTBOUND_TOOLS = new Set(["web_fetch", "message", "sessions_send", "browser"]);
+
+// Secret detectors checked by default. Emails, IPs, and wallet addresses are
+// routine in outbound messages, and the generic strict_* patterns match hashes
+// and IDs; all are left out unless listed in dlpDetectors.
+export const DEFAULT_DLP_DETECTORS = [
+  "gcp_service_account",
+  "ssh_private_key",
+  "private_key",
+  "database_url",
+  "auth",
+  "anthropic_key",
+  "openai_key",
+  "aws_key",
+  "aws_secret_key",
+  "github_token",
+  "gitlab_token",
+  "google_api_key",
+  "slack_token",
+  "stripe_key",
+  "npm_token",
+  "pypi_token",
+  "twilio_key",
+  "sendgrid_key",
+  "azure_connection_string",
+  "jwt",
+  "secret",
+  "seed_phrase"
+];
+
+// Whether outbound DLP applies to a tool call.
+export function shouldRunDlp(toolName: string, rule?: NormalizedToolRule): boolean {
+  return Boolean(rule?.dlpAction) || OUTBOUND_TOOLS.has(normalizeToolName(toolName));
+}
+
+// Secret detector IDs in a registry: DEFAULT_DLP_DETECTORS plus custom detectors
+// unless they opt out. Outbound DLP checks these by default, and only these taint a session.
+export function listSecretDetectors(registry: RedactionDetector[] = BUILTIN_DETECTORS): string[] {
+  return registry
+    .filter((detector) => detector.dlp ?? DEFAULT_DLP_DETECTORS.includes(detector.id))
+    .map((detector) => detector.id);
+}
+
+// Run the redaction detectors over outbound params (by default the secret detectors).
+export function scanOutboundParams(
+  params: Record<string, unknown>,
+  options: { mode: RedactionMode; detectors?: string[]; registry?: RedactionDetector[] }
+): DlpResult {
+  const mode: RedactionMode = options.mode === "off" ? "standard" : options.mode;
+  const registry = options.registry ?? BUILTIN_DETECTORS;
+  const types = options.detectors && options.detectors.length > 0 ? options.detectors : listSecretDetectors(registry);
+  const scan = redactValue(params, { mode, types, detectors: registry });
+  const matches = scan.report.matches;
+  return {
+    detected: matches.length > 0,
+    types: matches.map((match) => match.type),
+    count: matches.reduce((total, match) => total + match.count, 0),
+    redactedParams: scan.redacted as Record<string, unknown>
+  };
+}
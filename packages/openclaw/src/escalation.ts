@@ -0,0 +1,103 @@
+import type { EscalationLevel, EscalationSettings, SuspicionSignal } from "@mindaiproject/firewall-core";
+
+export type SessionSuspicion = {
+  /** Sum of signal weights within the scoring window. */
+  score: number;
+  /** Signal counts within the scoring window. */
+  signals: Partial<Record<SuspicionSignal, number>>;
+  escalation?: {
+    level: EscalationLevel;
+    since: number;
+    until: number;
+  };
+};
+
+export type SuspicionTracker = {
+  record: (sessionKey: string, signals: SuspicionSignal[], settings: EscalationSettings, now?: number) => SessionSuspicion;
+  get: (sessionKey: string, now?: number) => SessionSuspicion | null;
+  reset: (sessionKey: string) => boolean;
+  list: (now?: number) => Array<{ sessionKey: string; suspicion: SessionSuspicion }>;
+};
+
+export const DEFAULT_ESCALATION_COOLDOWN_SEC = 900;
+export const DEFAULT_ESCALATION_WINDOW_SEC = 600;
+
+const DEFAULT_WEIGHTS: Record<SuspicionSignal, number> = {
+  deny: 1,
+  ask: 1,
+  injection: 3,
+  path_guard: 2
+};
+
+type SessionEntry = {
+  events: Array<{ signal: SuspicionSignal; weight: number; at: number }>;
+  windowMs: number;
+  escalation?: SessionSuspicion["escalation"];
+};
+
+// Create an in-memory per-session suspicion score. Crossing a level escalates the
+// session until its cooldown ends; a higher level replaces a lower one.
+export function createSuspicionTracker(): SuspicionTracker {
+  const sessions = new Map<string, SessionEntry>();
+
+  const get = (sessionKey: string, now = Date.now()): SessionSuspicion | null => {
+    const entry = sessions.get(sessionKey);
+    if (!entry) {
+      return null;
+    }
+    entry.events = entry.events.filter((event) => now - event.at < entry.windowMs);
+    if (entry.escalation && entry.escalation.until <= now) {
+      delete entry.escalation;
+    }
+    if (entry.events.length === 0 && !entry.escalation) {
+      sessions.delete(sessionKey);
+      return null;
+    }
+    return summarize(entry);
+  };
+
+  const record = (sessionKey: string, signals: SuspicionSignal[], settings: EscalationSettings, now = Date.now()) => {
+    get(sessionKey, now);
+    const entry = sessions.get(sessionKey) ?? { events: [], windowMs: settings.windowSec * 1000 };
+    entry.windowMs = settings.windowSec * 1000;
+    for (const signal of signals) {
+      entry.events.push({ signal, weight: settings.weights?.[signal] ?? DEFAULT_WEIGHTS[signal], at: now });
+    }
+    sessions.set(sessionKey, entry);
+    const score = entry.events.reduce((total, event) => total + event.weight, 0);
+    const level = [...settings.levels].sort((a, b) => b.score - a.score).find((candidate) => score >= candidate.score);
+    if (level && (!entry.escalation || level.score >= entry.escalation.level.score)) {
+      entry.escalation = {
+        level,
+        since: entry.escalation?.since ?? now,
+        until: now + settings.cooldownSec * 1000
+      };
+    }
+    return summarize(entry);
+  };
+
+  const reset = (sessionKey: string): boolean => sessions.delete(sessionKey);
+
+  const list = (now = Date.now()) => {
+    const entries: Array<{ sessionKey: string; suspicion: SessionSuspicion }> = [];
+    for (const sessionKey of Array.from(sessions.keys())) {
+      const suspicion = get(sessionKey, now);
+      if (suspicion) {
+        entries.push({ sessionKey, suspicion });
+      }
+    }
+    return entries;
+  };
+
+  return { record, get, reset, list };
+}
+
+function summarize(entry: SessionEntry): SessionSuspicion {
+  const signals: SessionSuspicion["signals"] = {};
+  let score = 0;
+  for (const event of entry.events) {
+    signals[event.signal] = (signals[event.signal] ?? 0) + 1;
+    score += event.weight;
+  }
+  return entry.escalation ? { score, signals, escalation: { ...entry.escalation } } : { score, signals };
+}
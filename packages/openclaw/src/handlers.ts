@@ -1,7 +1,24 @@
-import { buildPolicyIndex, evaluatePolicy, normalizeToolName, type FirewallDecision, type NormalizedToolRule } from "@mindaiproject/firewall-core";
+import {
+  applyPolicyOverlays,
+  buildPolicyIndex,
+  evaluatePolicy,
+  normalizeToolName,
+  resolvePolicyOverlays,
+  type FirewallDecision,
+  type NormalizedToolRule
+} from "@mindaiproject/firewall-core";
 import { hashObject, sha256Hex, stableStringify } from "@mindaiproject/firewall-core";
-import type { Decision, Policy, Receipt, ToolCall, RedactionMode } from "@mindaiproject/firewall-core";
-import { redactValue } from "@mindaiproject/firewall-redaction";
+import type {
+  Decision,
+  DecisionStage,
+  DecisionTraceStep,
+  Policy,
+  SuspicionSignal,
+  Receipt,
+  ToolCall,
+  RedactionMode
+} from "@mindaiproject/firewall-core";
+import { buildDetectorRegistry, redactValue, type RedactionDetector } from "@mindaiproject/firewall-redaction";
 import { scanText } from "@mindaiproject/firewall-scanner";
 import type {
   OpenClawPluginApi,
@@ -24,20 +41,62 @@ import {
   writeLastDecision
 } from "./storage.js";
 import { loadPolicyConfig } from "./config.js";
-import { evaluatePathAllowlist } from "./path-guard.js";
-import { createRateLimiter, normalizeRateLimitRules, type RateLimiter } from "./rate-limit.js";
+import { evaluatePathAllowlist, SENSITIVE_PATHS } from "./path-guard.js";
+import { evaluateCommandPolicy, readExecCommand } from "./command-guard.js";
+import { evaluateNetworkAllowlist, NETWORK_TOOLS } from "./network-guard.js";
+import { listSecretDetectors, OUTBOUND_TOOLS, scanOutboundParams, shouldRunDlp } from "./dlp.js";
+import {
+  createRateLimiter,
+  createRateLimiterStore,
+  describeRateLimit,
+  normalizeRateLimitRules,
+  type RateLimiter,
+  type RateLimitHit
+} from "./rate-limit.js";
+import { buildCallShape } from "./simulate.js";
+import { createTaintLedger, DEFAULT_TAINT_TTL_SEC, type TaintLedger } from "./taint.js";
+import { createSequenceTracker, type SequenceTracker } from "./sequence.js";
+import { createSuspicionTracker, type SuspicionTracker } from "./escalation.js";
+import { createConcurrencyTracker, normalizeConcurrencyRules, type ConcurrencyTracker } from "./concurrency.js";
+import { createQuotaTracker, normalizeQuotaRules, type QuotaTracker } from "./quota.js";
+import { hashPolicy, watchPolicyFiles, type PolicyLoadParams, type PolicyWatcher } from "./reload.js";
 
 export type FirewallState = {
   policy: Policy;
   policySource: string;
   warnings: string[];
   toolIndex: Map<string, NormalizedToolRule>;
+  /** Hash of the active policy; updated on every successful reload. */
+  policyHash?: string;
+  /** Preset + policy path used to (re)load the policy. */
+  policyLoad?: PolicyLoadParams;
+  /** Policy files and include directories watched for hot reload. */
+  watchPaths?: string[];
+  policyWatcher?: PolicyWatcher;
+  /** Overlaid policies + indexes keyed by overlay IDs (e.g. "agent:researcher"). */
+  overlayIndex?: Map<string, ScopedPolicy>;
   stateDir: string;
   logger?: PluginLogger;
   resolvePath: (input: string) => string;
   maxResultChars?: number;
   maxResultAction: "truncate" | "block";
   rateLimiter?: RateLimiter;
+  /** Calls between before_tool_call and tool_result_persist, for concurrency limits. */
+  concurrencyTracker?: ConcurrencyTracker;
+  /** Daily/weekly quotas, persisted in the state dir. */
+  quotaTracker?: QuotaTracker;
+  /** Sessions whose tool results surfaced secrets or injection findings. */
+  taintLedger?: TaintLedger;
+  /** Recent calls per session, for sequence rules. */
+  sequenceTracker?: SequenceTracker;
+  /** Per-session suspicion scores and escalations. */
+  suspicionTracker?: SuspicionTracker;
+};
+
+export type ScopedPolicy = {
+  policy: Policy;
+  toolIndex: Map<string, NormalizedToolRule>;
+  overlays: string[];
 };
 
 // Initialize firewall state using plugin config and preset policies.
@@ -52,22 +111,30 @@ export function createFirewallState(api: OpenClawPluginApi): FirewallState {
       ? pluginConfig.maxResultChars
       : undefined;
   const maxResultAction = pluginConfig.maxResultAction === "block" ? "block" : "truncate";
+  const stateDir = getStateDir();
   const rateLimitRules = normalizeRateLimitRules(pluginConfig.rateLimits);
-  const rateLimiter = rateLimitRules.length > 0 ? createRateLimiter(rateLimitRules) : undefined;
+  const rateLimiter = rateLimitRules.length > 0
+    ? createRateLimiter(rateLimitRules, createRateLimiterStore(pluginConfig.rateLimitStore, stateDir))
+    : undefined;
+  const concurrencyRules = normalizeConcurrencyRules(pluginConfig.concurrencyLimits);
+  const quotaRules = normalizeQuotaRules(pluginConfig.quotas);
   const auditOnStart = pluginConfig.auditOnStart !== false;
 
-  const loadParams: { preset?: "strict" | "standard" | "dev"; policyPath?: string } = {};
+  const watchPolicy = pluginConfig.watchPolicy !== false;
+
+  const loadParams: PolicyLoadParams = {};
   if (preset === "strict" || preset === "standard" || preset === "dev") {
     loadParams.preset = preset;
   }
   if (policyPath) {
     loadParams.policyPath = policyPath;
   }
-  const loaded = loadPolicyConfig(loadParams);
+  const loaded = loadPolicyConfig({ ...loadParams, strict: pluginConfig.strictPolicy === true });
 
   if (loaded.warnings.length > 0) {
     loaded.warnings.forEach((warning) => api.logger.warn?.(`[firewall] ${warning}`));
   }
+  loaded.errors.forEach((error) => api.logger.error?.(`[firewall] ${error}`));
   if (auditOnStart) {
     const findings = auditOpenClawConfig(api.config ?? {});
     if (findings.length > 0) {
@@ -80,10 +147,16 @@ export function createFirewallState(api: OpenClawPluginApi): FirewallState {
     policySource: loaded.source,
     warnings: loaded.warnings,
     toolIndex: buildPolicyIndex(loaded.policy),
-    stateDir: getStateDir(),
+    policyHash: hashPolicy(loaded.policy),
+    policyLoad: loadParams,
+    watchPaths: loaded.watchPaths,
+    stateDir,
     logger: api.logger,
     resolvePath: api.resolvePath,
-    maxResultAction
+    maxResultAction,
+    taintLedger: createTaintLedger(),
+    sequenceTracker: createSequenceTracker(),
+    suspicionTracker: createSuspicionTracker()
   };
   if (maxResultChars) {
     state.maxResultChars = maxResultChars;
@@ -91,6 +164,15 @@ export function createFirewallState(api: OpenClawPluginApi): FirewallState {
   if (rateLimiter) {
     state.rateLimiter = rateLimiter;
   }
+  if (concurrencyRules.length > 0) {
+    state.concurrencyTracker = createConcurrencyTracker(concurrencyRules);
+  }
+  if (quotaRules.length > 0) {
+    state.quotaTracker = createQuotaTracker(quotaRules, state.stateDir);
+  }
+  if (watchPolicy) {
+    state.policyWatcher = watchPolicyFiles(state);
+  }
   return state;
 }
 
@@ -107,31 +189,72 @@ export async function handleBeforeToolCall(
     context: buildContext(ctx)
   };
 
-  let decision = evaluatePolicy(state.policy, toolCall, state.toolIndex);
+  const scoped = resolveScopedPolicy(state, toolCall.context);
+  let decision = evaluateScopedPolicy(scoped, toolCall);
+
+  const commandGuard = evaluateCommandGuard(toolName, event.params ?? {}, decision);
+  decision = commandGuard.decision;
 
   // Delegate exec approvals to OpenClaw's built-in system.
   if (toolName === "exec" && decision.useExecApprovals && decision.decision === "ASK") {
-    decision = { ...decision, decision: "ALLOW", reason: "Exec approval delegated to OpenClaw." };
+    const reason = "Exec approval delegated to OpenClaw.";
+    decision = appendTraceStep(
+      { ...decision, decision: "ALLOW", reason },
+      { stage: "exec_delegation", input: { tool: toolName }, outcome: "ALLOW", reason }
+    );
   }
 
-  const pathGuard = evaluatePathGuard(state, toolName, event.params ?? {}, decision);
-  if (pathGuard.override) {
-    decision = pathGuard.override;
-  }
+  const pathGuard = evaluatePathGuard(state, scoped.policy, toolName, event.params ?? {}, decision);
+  decision = pathGuard.decision;
+
+  const networkGuard = evaluateNetworkGuard(toolName, event.params ?? {}, decision);
+  decision = networkGuard.decision;
+
+  const detectors = buildDetectorRegistry(state.policy.redaction);
+  const dlp = evaluateDlpGuard(toolName, event.params ?? {}, decision, scoped.policy.defaults.redaction, detectors);
+  decision = dlp.decision;
+  const outboundParams = dlp.params ?? event.params;
+
+  const taint = evaluateTaintGuard(state, scoped.policy, toolName, ctx.sessionKey, event.params ?? {}, decision);
+  decision = taint.decision;
+
+  const sequence = evaluateSequenceGuard(state, scoped.policy, toolName, ctx.sessionKey, event.params ?? {}, decision);
+  decision = sequence.decision;
+
+  const escalation = evaluateEscalationGuard(state, scoped.policy, ctx.sessionKey, decision);
+  decision = escalation.decision;
 
   const rateLimit = decision.decision === "DENY"
-    ? {}
-    : evaluateRateLimit(state, toolName, ctx.sessionKey, decision);
-  if (rateLimit.override) {
-    decision = rateLimit.override;
-  }
+    ? { decision }
+    : await evaluateRateLimit(state, toolName, ctx, event.params ?? {}, decision);
+  decision = rateLimit.decision;
+
+  const concurrency = decision.decision === "DENY" ? { decision } : evaluateConcurrency(state, toolName, ctx, decision);
+  decision = concurrency.decision;
+
+  const quota = decision.decision === "DENY" ? { decision } : evaluateQuota(state, toolName, ctx, decision);
+  decision = quota.decision;
 
-  const { preview, paramsHash, redactionReport } = redactParamsPreview(
+  const paramsPreview = redactParamsPreview(
     event.params,
     decision.redactionPlan.redactParams,
-    state.policy.defaults.redaction
+    scoped.policy.defaults.redaction,
+    detectors
+  );
+  const { preview, paramsHash, redactionReport } = paramsPreview;
+  const guardMetadata = mergeGuardMetadata(
+    { callShape: buildCallShape(toolName, event.params ?? {}, state.resolvePath, decision.toolRule?.pathParams) },
+    commandGuard.metadata,
+    pathGuard.metadata,
+    networkGuard.metadata,
+    dlp.metadata,
+    taint.metadata,
+    sequence.metadata,
+    escalation.metadata,
+    rateLimit.metadata,
+    concurrency.metadata,
+    quota.metadata
   );
-  const guardMetadata = mergeGuardMetadata(pathGuard.metadata, rateLimit.metadata);
 
   if (decision.decision === "ALLOW") {
     recordDecision(
@@ -141,9 +264,13 @@ export async function handleBeforeToolCall(
       toolName,
       redactionReport,
       paramsHash,
-      buildLogMetadata(state, preview, guardMetadata)
+      buildLogMetadata(scoped.policy, paramsPreview, guardMetadata)
     );
-    return { params: event.params };
+    recordSuspicionSignals(state, scoped.policy, ctx.sessionKey, collectSuspicionSignals(decision));
+    recordSequenceCall(state, scoped.policy, toolName, ctx.sessionKey, event.params ?? {}, paramsHash);
+    await consumeQuota(state, toolName, ctx);
+    state.concurrencyTracker?.acquire(toolName, { ...ctx, ...readToolCallId(event, ctx) });
+    return { params: outboundParams };
   }
 
   if (decision.decision === "DENY") {
@@ -154,21 +281,22 @@ export async function handleBeforeToolCall(
       toolName,
       redactionReport,
       paramsHash,
-      buildLogMetadata(state, preview, guardMetadata)
+      buildLogMetadata(scoped.policy, paramsPreview, guardMetadata)
     );
+    recordSuspicionSignals(state, scoped.policy, ctx.sessionKey, collectSuspicionSignals(decision));
     return {
       block: true,
       blockReason: `Firewall denied ${toolName}. ${decision.reason}`
     };
   }
 
-  const approval = resolveApproval(state, decision, ctx, toolName, paramsHash, preview);
+  const approval = resolveApproval(state, scoped.policy, decision, ctx, toolName, paramsHash, preview);
   if (approval.allowed) {
-    const approvedDecision: FirewallDecision = {
-      ...decision,
-      decision: "ALLOW",
-      reason: "Tool call approved by firewall."
-    };
+    const reason = "Tool call approved by firewall.";
+    const approvedDecision = appendTraceStep(
+      { ...decision, decision: "ALLOW", reason },
+      { stage: "approval", input: buildApprovalTraceInput(approval), outcome: "ALLOW", reason }
+    );
     recordDecision(
       state,
       approvedDecision,
@@ -176,20 +304,30 @@ export async function handleBeforeToolCall(
       toolName,
       redactionReport,
       paramsHash,
-      buildLogMetadata(state, preview, { approvalId: approval.id, approvalScope: approval.scope, ...guardMetadata })
+      buildLogMetadata(scoped.policy, paramsPreview, { approvalId: approval.id, approvalScope: approval.scope, ...guardMetadata })
     );
-    return { params: event.params };
+    recordSequenceCall(state, scoped.policy, toolName, ctx.sessionKey, event.params ?? {}, paramsHash);
+    await consumeQuota(state, toolName, ctx);
+    state.concurrencyTracker?.acquire(toolName, { ...ctx, ...readToolCallId(event, ctx) });
+    return { params: outboundParams };
   }
 
+  const pendingDecision = appendTraceStep(decision, {
+    stage: "approval",
+    input: buildApprovalTraceInput(approval),
+    outcome: "ASK",
+    reason: `Awaiting approval ${approval.id}.`
+  });
   recordDecision(
     state,
-    decision,
+    pendingDecision,
     ctx,
     toolName,
     redactionReport,
     paramsHash,
-    buildLogMetadata(state, preview, { approvalId: approval.id, approvalScope: approval.scope, ...guardMetadata })
+    buildLogMetadata(scoped.policy, paramsPreview, { approvalId: approval.id, approvalScope: approval.scope, ...guardMetadata })
   );
+  recordSuspicionSignals(state, scoped.policy, ctx.sessionKey, collectSuspicionSignals(decision));
 
   return {
     block: true,
@@ -209,12 +347,13 @@ export function handleToolResultPersist(
     params: {},
     context: buildContext(ctx)
   };
-  const decision = evaluatePolicy(state.policy, toolCall, state.toolIndex);
+  const scoped = resolveScopedPolicy(state, toolCall.context);
+  const decision = evaluateScopedPolicy(scoped, toolCall);
 
-  const redactionMode = state.policy.defaults.redaction;
+  const redactionMode = scoped.policy.defaults.redaction;
   const shouldRedact = decision.redactionPlan.redactResult && redactionMode !== "off";
   const redaction = shouldRedact
-    ? redactValue(event.message, { mode: redactionMode })
+    ? redactValue(event.message, { mode: redactionMode, detectors: buildDetectorRegistry(state.policy.redaction) })
     : { redacted: event.message, report: { redacted: false, matches: [] } };
 
   let nextMessage = redaction.redacted;
@@ -234,22 +373,29 @@ export function handleToolResultPersist(
     if (messageText) {
       injectionFindings = scanText(messageText);
       if (injectionFindings.flagged) {
-        if (state.policy.defaults.injection.mode === "block") {
+        if (scoped.policy.defaults.injection.mode === "block") {
           nextMessage = buildBlockedToolResult(event, injectionFindings.findings);
-        } else if (state.policy.defaults.injection.mode === "alert") {
+        } else if (scoped.policy.defaults.injection.mode === "alert") {
           nextMessage = appendWarningToMessage(nextMessage, injectionFindings.findings);
         }
       }
     }
   }
 
+  const taint = markSessionTaint(state, scoped.policy, toolName, ctx.sessionKey, redaction.report, injectionFindings);
+  if (injectionFindings?.flagged) {
+    recordSuspicionSignals(state, scoped.policy, ctx.sessionKey, ["injection"]);
+  }
+  state.concurrencyTracker?.release(toolName, { ...ctx, ...readToolCallId(event, ctx) });
+
   recordToolResultReceipt(
     state,
+    scoped.policy,
     toolName,
     ctx,
     redaction.report,
     injectionFindings,
-    outputGuard.metadata
+    taint ? mergeGuardMetadata(outputGuard.metadata, taint) : outputGuard.metadata
   );
 
   if (nextMessage !== event.message) {
@@ -258,11 +404,36 @@ export function handleToolResultPersist(
   return;
 }
 
+// Resolve agent/session overlays once per overlay combination and cache the index.
+function resolveScopedPolicy(state: FirewallState, context: ToolCall["context"]): ScopedPolicy {
+  const overlays = resolvePolicyOverlays(state.policy, context);
+  if (overlays.length === 0) {
+    return { policy: state.policy, toolIndex: state.toolIndex, overlays };
+  }
+  const key = overlays.join("|");
+  const cache = state.overlayIndex ?? new Map<string, ScopedPolicy>();
+  state.overlayIndex = cache;
+  const cached = cache.get(key);
+  if (cached) {
+    return cached;
+  }
+  const policy = applyPolicyOverlays(state.policy, overlays);
+  const scoped: ScopedPolicy = { policy, toolIndex: buildPolicyIndex(policy), overlays };
+  cache.set(key, scoped);
+  return scoped;
+}
+
+function evaluateScopedPolicy(scoped: ScopedPolicy, toolCall: ToolCall): FirewallDecision {
+  const decision = evaluatePolicy(scoped.policy, toolCall, scoped.toolIndex);
+  return scoped.overlays.length > 0 ? { ...decision, overlays: scoped.overlays } : decision;
+}
+
 function redactParamsPreview(
   params: Record<string, unknown>,
   shouldRedact: boolean,
-  redactionMode: RedactionMode
-): { preview: string; paramsHash: string; redactionReport: ReturnType<typeof redactValue>["report"] } {
+  redactionMode: RedactionMode,
+  detectors: RedactionDetector[]
+): { preview: string; truncated: boolean; paramsHash: string; redactionReport: ReturnType<typeof redactValue>["report"] } {
   const fallback = "[unserializable-params]";
   const safePreview = (value: unknown): string => {
     try {
@@ -282,18 +453,25 @@ function redactParamsPreview(
   if (!shouldRedact) {
     return {
       preview: "[redacted]",
+      truncated: false,
       paramsHash: safeHash(params),
       redactionReport: { redacted: false, matches: [] }
     };
   }
   const effectiveMode: RedactionMode = redactionMode === "off" ? "standard" : redactionMode;
-  const redaction = redactValue(params, { mode: effectiveMode });
-  const preview = truncate(safePreview(redaction.redacted), 500);
-  return { preview, paramsHash: safeHash(redaction.redacted), redactionReport: redaction.report };
+  const redaction = redactValue(params, { mode: effectiveMode, detectors });
+  const full = safePreview(redaction.redacted);
+  return {
+    preview: truncate(full, 500),
+    truncated: full.length > 500,
+    paramsHash: safeHash(redaction.redacted),
+    redactionReport: redaction.report
+  };
 }
 
 function resolveApproval(
   state: FirewallState,
+  policy: Policy,
   decision: FirewallDecision,
   ctx: PluginHookToolContext,
   toolName: string,
@@ -302,7 +480,7 @@ function resolveApproval(
 ): { allowed: boolean; id: string; scope?: ApprovalScope } {
   const store = loadApprovalStore(state.stateDir);
   const approvalId = buildApprovalId(toolName, ctx.sessionKey, paramsHash, decision.risk);
-  const previewForStore = state.policy.defaults.log === "debug" ? paramsPreview : "[redacted]";
+  const previewForStore = policy.defaults.log === "debug" ? paramsPreview : "[redacted]";
 
   const sessionApproval = store.sessionApprovals.find(
     (approval) =>
@@ -415,6 +593,9 @@ function recordDecision(
     metadata: {
       policySource: state.policySource,
       paramsHash,
+      ...(decision.matchedPattern ? { matchedPattern: decision.matchedPattern } : {}),
+      ...(decision.overlays ? { overlays: decision.overlays } : {}),
+      trace: decision.trace,
       ...metadata
     }
   };
@@ -425,6 +606,7 @@ function recordDecision(
 
 function recordToolResultReceipt(
   state: FirewallState,
+  policy: Policy,
   toolName: string,
   ctx: PluginHookToolResultPersistContext,
   redactionReport: ReturnType<typeof redactValue>["report"],
@@ -442,7 +624,7 @@ function recordToolResultReceipt(
   }
   if (injection) {
     receipt.injection = {
-      mode: state.policy.defaults.injection.mode,
+      mode: policy.defaults.injection.mode,
       findings: injection.findings.map((finding) => ({
         id: finding.id,
         severity: finding.severity,
@@ -454,61 +636,539 @@ function recordToolResultReceipt(
   appendReceipt(withContext, state.stateDir);
 }
 
+// Evaluate each binary in an exec command line against the rule's command policy.
+// Unlike the other guards this may relax the decision (allow-listed binaries skip
+// approval), but never a DENY from the tool rule or a param rule.
+function evaluateCommandGuard(
+  toolName: string,
+  params: Record<string, unknown>,
+  decision: FirewallDecision
+): { decision: FirewallDecision; metadata?: Record<string, unknown> } {
+  const commands = decision.toolRule?.commands;
+  if (toolName !== "exec" || !commands) {
+    return { decision };
+  }
+  const result = evaluateCommandPolicy(readExecCommand(params) ?? "", commands, decision.decision);
+  const input: Record<string, unknown> = { binaries: result.binaries };
+  if (result.matched) {
+    input.matched = result.matched.source;
+  }
+  const metadata = {
+    commandGuard: {
+      decision: result.decision,
+      binaries: result.binaries,
+      ...(result.matched ? { matched: result.matched } : {}),
+      ...(result.parseError ? { parseError: result.parseError } : {})
+    }
+  };
+  if (decision.decision === "DENY") {
+    return {
+      decision: appendTraceStep(decision, {
+        stage: "command_guard",
+        input,
+        outcome: "DENY",
+        reason: `${result.reason} (tool rule already DENY)`
+      }),
+      metadata
+    };
+  }
+  const reason = `Command guard: ${result.reason}`;
+  return {
+    decision: appendTraceStep(
+      { ...decision, decision: result.decision, reason },
+      { stage: "command_guard", input, outcome: result.decision, reason }
+    ),
+    metadata
+  };
+}
+
 function evaluatePathGuard(
   state: FirewallState,
+  policy: Policy,
   toolName: string,
   params: Record<string, unknown>,
   decision: FirewallDecision
-): { override?: FirewallDecision; metadata?: Record<string, unknown> } {
-  const allowPaths = decision.toolRule?.allowPaths;
-  if (!allowPaths || allowPaths.length === 0) {
-    return {};
-  }
+): { decision: FirewallDecision; metadata?: Record<string, unknown> } {
+  const allowPaths = decision.toolRule?.allowPaths ?? [];
+  const denyPaths = decision.toolRule?.denyPaths ?? [];
+  // The firewall's own state dir is sensitive wherever it lives.
+  const sensitivePaths = policy.defaults.sensitivePaths === false ? [] : [...SENSITIVE_PATHS, state.stateDir];
   const result = evaluatePathAllowlist({
     toolName,
     params,
     allowPaths,
+    denyPaths,
+    sensitivePaths,
+    ...(decision.toolRule?.pathParams ? { pathParams: decision.toolRule.pathParams } : {}),
+    ...(policy.workspaces ? { workspaces: policy.workspaces } : {}),
     resolvePath: state.resolvePath
   });
+  if (allowPaths.length === 0 && result.toolPaths.length === 0 && !result.violation) {
+    return { decision };
+  }
   const metadata = buildPathGuardMetadata(allowPaths, result);
+  const input = { paths: result.toolPaths.length, unmatched: result.unmatched.length, denied: result.denied.length };
+  if (result.denied.length > 0 || result.violation === "nul_byte") {
+    return {
+      decision: overrideDecision(decision, "DENY", `Path guard: ${result.reason}`, "path_guard", input),
+      metadata
+    };
+  }
+  if (!result.allowed) {
+    const action = result.blockedBy === "workspaces"
+      ? policy.workspaces?.action ?? "ASK"
+      : decision.toolRule?.pathAction ?? "ASK";
+    return {
+      decision: overrideDecision(decision, action, `Path guard: ${result.reason}`, "path_guard", input),
+      metadata
+    };
+  }
+  return {
+    decision: appendTraceStep(decision, {
+      stage: "path_guard",
+      input,
+      outcome: decision.decision,
+      reason: result.reason
+    }),
+    metadata
+  };
+}
+
+function evaluateNetworkGuard(
+  toolName: string,
+  params: Record<string, unknown>,
+  decision: FirewallDecision
+): { decision: FirewallDecision; metadata?: Record<string, unknown> } {
+  if (!NETWORK_TOOLS.has(toolName)) {
+    return { decision };
+  }
+  const rule = decision.toolRule;
+  const result = rule
+    ? evaluateNetworkAllowlist({ toolName, params, rule })
+    : evaluateNetworkAllowlist({ toolName, params });
+  if (result.hosts.length === 0 && result.allowed) {
+    return { decision };
+  }
+  const metadata = {
+    networkGuard: {
+      allowlistCount: rule?.allowDomains?.length ?? 0,
+      denylistCount: rule?.denyDomains?.length ?? 0,
+      hosts: result.hosts.map((host) => sha256Hex(host).slice(0, 8)),
+      blockedCount: result.violations.length
+    }
+  };
+  const input = { hosts: result.hosts.length, blocked: result.violations.length };
   if (!result.allowed) {
-    const action = decision.toolRule?.pathAction ?? "ASK";
-    const override = overrideDecision(decision, action, `Path guard: ${result.reason}`);
-    return { override, metadata };
+    const action = rule?.networkAction ?? "ASK";
+    return {
+      decision: overrideDecision(decision, action, `Network guard: ${result.reason}`, "network_guard", input),
+      metadata
+    };
+  }
+  return {
+    decision: appendTraceStep(decision, {
+      stage: "network_guard",
+      input,
+      outcome: decision.decision,
+      reason: result.reason
+    }),
+    metadata
+  };
+}
+
+// Scan outbound params for secrets and apply the rule's dlpAction.
+// REWRITE keeps the decision and returns params with the secrets redacted.
+function evaluateDlpGuard(
+  toolName: string,
+  params: Record<string, unknown>,
+  decision: FirewallDecision,
+  redactionMode: RedactionMode,
+  registry: RedactionDetector[]
+): { decision: FirewallDecision; metadata?: Record<string, unknown>; params?: Record<string, unknown> } {
+  const rule = decision.toolRule;
+  if (!shouldRunDlp(toolName, rule)) {
+    return { decision };
+  }
+  const result = rule?.dlpDetectors
+    ? scanOutboundParams(params, { mode: redactionMode, detectors: rule.dlpDetectors, registry })
+    : scanOutboundParams(params, { mode: redactionMode, registry });
+  const input = { types: result.types, count: result.count };
+  if (!result.detected) {
+    return {
+      decision: appendTraceStep(decision, {
+        stage: "dlp",
+        input,
+        outcome: decision.decision,
+        reason: "No secrets detected in outbound params."
+      })
+    };
+  }
+  const action = rule?.dlpAction ?? "ASK";
+  const metadata = { dlp: { action, types: result.types, count: result.count } };
+  const detected = `Outbound params contain ${result.types.join(", ")}`;
+  if (action === "REWRITE" || action === "ALLOW") {
+    const reason = action === "REWRITE"
+      ? `DLP: ${detected}; sending redacted values.`
+      : `DLP: ${detected} (allowed by dlpAction).`;
+    const next = appendTraceStep(decision, { stage: "dlp", input, outcome: decision.decision, reason });
+    return action === "REWRITE" ? { decision: next, metadata, params: result.redactedParams } : { decision: next, metadata };
+  }
+  return { decision: overrideDecision(decision, action, `DLP: ${detected}.`, "dlp", input), metadata };
+}
+
+// Taint the session when a tool result carried redacted secrets or injection findings.
+function markSessionTaint(
+  state: FirewallState,
+  policy: Policy,
+  toolName: string,
+  sessionKey: string | undefined,
+  redactionReport: ReturnType<typeof redactValue>["report"],
+  injection: ReturnType<typeof scanText> | null
+): Record<string, unknown> | undefined {
+  const findings = injection?.flagged ? injection.findings : [];
+  const secretTypes = listSecretDetectors(buildDetectorRegistry(state.policy.redaction));
+  const secrets = redactionReport.matches.filter((match) => secretTypes.includes(match.type));
+  if (!state.taintLedger || !sessionKey || (secrets.length === 0 && findings.length === 0)) {
+    return undefined;
+  }
+  const ttlSec = policy.defaults.taint?.ttlSec ?? DEFAULT_TAINT_TTL_SEC;
+  const record = state.taintLedger.mark(
+    sessionKey,
+    {
+      hashes: secrets.flatMap((match) => match.hashes),
+      types: [...secrets.map((match) => match.type), ...findings.map((finding) => finding.id)],
+      source: toolName
+    },
+    ttlSec * 1000
+  );
+  return {
+    taint: {
+      types: record.types,
+      hashCount: record.hashes.length,
+      expiresAt: new Date(record.expiresAt).toISOString()
+    }
+  };
+}
+
+// Escalate outbound tools while the session is tainted (only when defaults.taint is set).
+function evaluateTaintGuard(
+  state: FirewallState,
+  policy: Policy,
+  toolName: string,
+  sessionKey: string | undefined,
+  params: Record<string, unknown>,
+  decision: FirewallDecision
+): { decision: FirewallDecision; metadata?: Record<string, unknown> } {
+  const settings = policy.defaults.taint;
+  const record = sessionKey ? state.taintLedger?.get(sessionKey) : null;
+  if (!settings || !record) {
+    return { decision };
+  }
+  const tools = settings.tools ?? Array.from(OUTBOUND_TOOLS);
+  if (!tools.includes(toolName)) {
+    return { decision };
   }
-  return { metadata };
+  const mode = policy.defaults.redaction === "off" ? "standard" : policy.defaults.redaction;
+  const tainted = new Set(record.hashes);
+  const overlap = redactValue(params, { mode, detectors: buildDetectorRegistry(state.policy.redaction) })
+    .report.matches.flatMap((match) => match.hashes)
+    .filter((hash) => tainted.has(hash)).length;
+  const reason = overlap > 0
+    ? `Session is tainted (${record.types.join(", ")}); params contain ${overlap} value(s) surfaced earlier in the session.`
+    : `Session is tainted (${record.types.join(", ")}).`;
+  const input = { types: record.types, overlap };
+  return {
+    decision: overrideDecision(decision, settings.action, reason, "taint", input),
+    metadata: { taint: { action: settings.action, types: record.types, overlap } }
+  };
 }
 
-function evaluateRateLimit(
+// Escalate when this call completes a sequence rule within the session's recent calls.
+function evaluateSequenceGuard(
   state: FirewallState,
+  policy: Policy,
   toolName: string,
   sessionKey: string | undefined,
+  params: Record<string, unknown>,
+  decision: FirewallDecision
+): { decision: FirewallDecision; metadata?: Record<string, unknown> } {
+  const rules = policy.sequences ?? [];
+  if (!state.sequenceTracker || !sessionKey || rules.length === 0) {
+    return { decision };
+  }
+  const match = state.sequenceTracker.evaluate(sessionKey, { toolName, params }, rules);
+  if (!match) {
+    return { decision };
+  }
+  const { rule } = match;
+  const pattern = rule.steps.map((step) => step.tool).join(" -> ");
+  const reason = `Sequence ${rule.id}: ${rule.reason ?? `matched ${pattern}.`}`;
+  const input = { rule: rule.id, steps: rule.steps.length };
+  return {
+    decision: overrideDecision(decision, rule.action, reason, "sequence", input),
+    metadata: { sequence: { rule: rule.id, action: rule.action, pattern } }
+  };
+}
+
+// Apply the session's escalated posture (only when defaults.escalation is set).
+function evaluateEscalationGuard(
+  state: FirewallState,
+  policy: Policy,
+  sessionKey: string | undefined,
   decision: FirewallDecision
-): { override?: FirewallDecision; metadata?: Record<string, unknown> } {
+): { decision: FirewallDecision; metadata?: Record<string, unknown> } {
+  const suspicion = sessionKey && policy.defaults.escalation ? state.suspicionTracker?.get(sessionKey) : null;
+  const escalation = suspicion?.escalation;
+  if (!suspicion || !escalation) {
+    return { decision };
+  }
+  const { level } = escalation;
+  if (level.risks && !level.risks.includes(decision.risk)) {
+    return { decision };
+  }
+  const until = new Date(escalation.until).toISOString();
+  const reason = `Session escalated (suspicion score ${suspicion.score}, level ${level.score}) until ${until}.`;
+  return {
+    decision: overrideDecision(decision, level.action, reason, "escalation", { score: suspicion.score, level: level.score }),
+    metadata: { escalation: { action: level.action, score: suspicion.score, level: level.score, until } }
+  };
+}
+
+// Signals from a before_tool_call decision: blocks, pending approvals, and path guard misses.
+function collectSuspicionSignals(decision: FirewallDecision): SuspicionSignal[] {
+  const signals: SuspicionSignal[] = [];
+  if (decision.decision === "DENY") {
+    signals.push("deny");
+  } else if (decision.decision === "ASK") {
+    signals.push("ask");
+  }
+  const pathMiss = (step: DecisionTraceStep) => Number(step.input.unmatched) > 0 || Number(step.input.denied) > 0;
+  if (decision.trace.some((step) => step.stage === "path_guard" && pathMiss(step))) {
+    signals.push("path_guard");
+  }
+  return signals;
+}
+
+// Add signals to the session's score. While a session is escalated only injection
+// findings count, so an escalation ends with its cooldown instead of feeding itself.
+function recordSuspicionSignals(
+  state: FirewallState,
+  policy: Policy,
+  sessionKey: string | undefined,
+  signals: SuspicionSignal[]
+): void {
+  const settings = policy.defaults.escalation;
+  if (!settings || !sessionKey || !state.suspicionTracker || signals.length === 0) {
+    return;
+  }
+  const escalated = Boolean(state.suspicionTracker.get(sessionKey)?.escalation);
+  const counted = escalated ? signals.filter((signal) => signal === "injection") : signals;
+  if (counted.length === 0) {
+    return;
+  }
+  const next = state.suspicionTracker.record(sessionKey, counted, settings);
+  if (next.escalation && !escalated) {
+    state.logger?.warn?.(
+      `[firewall] Session ${sessionKey} escalated to ${next.escalation.level.action} (suspicion score ${next.score}).`
+    );
+  }
+}
+
+// Only calls that go ahead are added to the sequence window.
+function recordSequenceCall(
+  state: FirewallState,
+  policy: Policy,
+  toolName: string,
+  sessionKey: string | undefined,
+  params: Record<string, unknown>,
+  paramsHash: string
+): void {
+  const rules = policy.sequences ?? [];
+  if (!state.sequenceTracker || !sessionKey || rules.length === 0) {
+    return;
+  }
+  state.sequenceTracker.record(sessionKey, { toolName, params, paramsHash }, rules);
+}
+
+async function evaluateRateLimit(
+  state: FirewallState,
+  toolName: string,
+  ctx: PluginHookToolContext,
+  params: Record<string, unknown>,
+  decision: FirewallDecision
+): Promise<{ decision: FirewallDecision; metadata?: Record<string, unknown> }> {
   if (!state.rateLimiter) {
-    return {};
+    return { decision };
+  }
+  let hit: RateLimitHit | null;
+  try {
+    hit = await state.rateLimiter.evaluate(toolName, ctx, params);
+  } catch (err) {
+    // The shared store could not be locked or read; budgets are unknown, so fail closed.
+    const message = err instanceof Error ? err.message : String(err);
+    state.logger?.error?.(`[firewall] ${message}`);
+    return {
+      decision: overrideDecision(
+        decision,
+        "DENY",
+        `Rate limit store is unavailable (${message}).`,
+        "rate_limit",
+        { tool: toolName }
+      )
+    };
   }
-  const hit = state.rateLimiter.evaluate(toolName, sessionKey);
   if (!hit) {
-    return {};
+    return {
+      decision: appendTraceStep(decision, {
+        stage: "rate_limit",
+        input: { tool: toolName },
+        outcome: decision.decision,
+        reason: "Within rate limits."
+      })
+    };
   }
   const windowSec = Math.max(1, Math.round(hit.rule.windowMs / 1000));
-  const reason = `Rate limit exceeded (${hit.rule.maxCalls} calls / ${windowSec}s).`;
-  const override = overrideDecision(decision, hit.rule.action, reason);
+  const reason = `Rate limit exceeded (${describeRateLimit(hit.rule)}).`;
   return {
-    override,
+    decision: overrideDecision(decision, hit.rule.action, reason, "rate_limit", {
+      tool: toolName,
+      scope: hit.rule.scope,
+      count: hit.count,
+      cost: hit.cost
+    }),
     metadata: {
       rateLimit: {
         tool: toolName,
         scope: hit.rule.scope,
         action: hit.rule.action,
+        algorithm: hit.rule.algorithm,
         maxCalls: hit.rule.maxCalls,
-        windowSec
+        windowSec,
+        cost: hit.cost
+      }
+    }
+  };
+}
+
+// Check in-flight calls. Slots are taken only by calls that go ahead (see acquire).
+function evaluateConcurrency(
+  state: FirewallState,
+  toolName: string,
+  ctx: PluginHookToolContext,
+  decision: FirewallDecision
+): { decision: FirewallDecision; metadata?: Record<string, unknown> } {
+  if (!state.concurrencyTracker) {
+    return { decision };
+  }
+  const hit = state.concurrencyTracker.evaluate(toolName, ctx);
+  if (!hit) {
+    return {
+      decision: appendTraceStep(decision, {
+        stage: "concurrency",
+        input: { tool: toolName },
+        outcome: decision.decision,
+        reason: "Within concurrency limits."
+      })
+    };
+  }
+  const reason = `Concurrency limit reached (${hit.inFlight} ${toolName} call(s) in flight, max ${hit.rule.maxInFlight} per ${hit.rule.scope}).`;
+  return {
+    decision: overrideDecision(decision, hit.rule.action, reason, "concurrency", {
+      tool: toolName,
+      scope: hit.rule.scope,
+      inFlight: hit.inFlight
+    }),
+    metadata: {
+      concurrency: {
+        tool: toolName,
+        scope: hit.rule.scope,
+        action: hit.rule.action,
+        maxInFlight: hit.rule.maxInFlight,
+        inFlight: hit.inFlight
       }
     }
   };
 }
 
+// The call ID pairs a before_tool_call with its tool_result_persist.
+function readToolCallId(
+  event: { toolCallId?: string },
+  ctx: { toolCallId?: string }
+): { toolCallId?: string } {
+  const toolCallId = event.toolCallId ?? ctx.toolCallId;
+  return toolCallId ? { toolCallId } : {};
+}
+
+// Count a call that goes ahead against its quotas. The call is already allowed,
+// so a store that cannot be locked or written is logged rather than thrown.
+async function consumeQuota(state: FirewallState, toolName: string, ctx: PluginHookToolContext): Promise<void> {
+  try {
+    await state.quotaTracker?.consume(toolName, ctx);
+  } catch (err) {
+    state.logger?.error?.(`[firewall] Quota not counted for ${toolName}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// Check long-horizon quotas. Only calls that go ahead are counted (see consume).
+function evaluateQuota(
+  state: FirewallState,
+  toolName: string,
+  ctx: PluginHookToolContext,
+  decision: FirewallDecision
+): { decision: FirewallDecision; metadata?: Record<string, unknown> } {
+  if (!state.quotaTracker) {
+    return { decision };
+  }
+  const { hit, usage, storeError } = state.quotaTracker.evaluate(toolName, ctx);
+  if (storeError) {
+    // Counts are unknown, so the call is treated as over quota instead of starting from zero.
+    state.logger?.error?.(`[firewall] ${storeError.message}`);
+    return {
+      decision: overrideDecision(
+        decision,
+        storeError.action,
+        "Quota store is unreadable; fix or delete quotas.json to reset counts.",
+        "quota",
+        { tool: toolName }
+      )
+    };
+  }
+  if (usage.length === 0) {
+    return { decision };
+  }
+  const metadata = {
+    quota: usage.map((entry) => ({
+      tool: entry.rule.toolName,
+      scope: entry.rule.scope,
+      period: entry.rule.period,
+      limit: entry.rule.maxCalls,
+      used: entry.used,
+      remaining: entry.remaining,
+      resetsAt: entry.resetsAt
+    }))
+  };
+  if (!hit) {
+    return {
+      decision: appendTraceStep(decision, {
+        stage: "quota",
+        input: { tool: toolName, quotas: usage.length },
+        outcome: decision.decision,
+        reason: "Within quotas."
+      }),
+      metadata
+    };
+  }
+  const reason = `Quota exceeded (${hit.rule.maxCalls} calls per ${hit.rule.period} per ${hit.rule.scope}; resets ${hit.resetsAt}).`;
+  return {
+    decision: overrideDecision(decision, hit.rule.action, reason, "quota", {
+      tool: toolName,
+      scope: hit.rule.scope,
+      used: hit.used
+    }),
+    metadata
+  };
+}
+
 function buildPathGuardMetadata(
   allowPaths: string[],
   result: ReturnType<typeof evaluatePathAllowlist>
@@ -518,20 +1178,47 @@ function buildPathGuardMetadata(
     pathGuard: {
       allowlistCount: allowPaths.length,
       paths: hashed,
-      unmatchedCount: result.unmatched.length
+      unmatchedCount: result.unmatched.length,
+      ...(result.violation ? { violation: result.violation } : {}),
+      ...(result.blockedBy ? { blockedBy: result.blockedBy } : {}),
+      ...(result.denied.length > 0
+        ? {
+            denied: result.denied.map((match) => ({
+              path: sha256Hex(match.path).slice(0, 8),
+              pattern: match.pattern,
+              source: match.source
+            }))
+          }
+        : {})
     }
   };
 }
 
+// Escalate a decision (never relax it) and record the stage in the trace either way.
 function overrideDecision(
   current: FirewallDecision,
   override: Decision,
-  reason: string
+  reason: string,
+  stage: DecisionStage,
+  input: Record<string, unknown>
 ): FirewallDecision {
   if (decisionRank(override) <= decisionRank(current.decision)) {
-    return current;
+    return appendTraceStep(current, {
+      stage,
+      input,
+      outcome: current.decision,
+      reason: `${reason} (already ${current.decision})`
+    });
   }
-  return { ...current, decision: override, reason };
+  return appendTraceStep({ ...current, decision: override, reason }, { stage, input, outcome: override, reason });
+}
+
+function appendTraceStep(decision: FirewallDecision, step: DecisionTraceStep): FirewallDecision {
+  return { ...decision, trace: [...decision.trace, step] };
+}
+
+function buildApprovalTraceInput(approval: { id: string; scope?: ApprovalScope }): Record<string, unknown> {
+  return approval.scope ? { approvalId: approval.id, scope: approval.scope } : { approvalId: approval.id };
 }
 
 function decisionRank(decision: Decision): number {
@@ -734,13 +1421,15 @@ function truncate(value: string, max: number): string {
   return `${value.slice(0, max)}...`;
 }
 
+// Debug logs keep the params preview; a truncated preview is flagged so replay
+// does not mistake it for a call without params.
 function buildLogMetadata(
-  state: FirewallState,
-  preview: string,
+  policy: Policy,
+  params: { preview: string; truncated: boolean },
   extra: Record<string, unknown> = {}
 ): Record<string, unknown> {
-  if (state.policy.defaults.log === "debug") {
-    return { paramsPreview: preview, ...extra };
+  if (policy.defaults.log === "debug") {
+    return { paramsPreview: params.preview, ...(params.truncated ? { paramsTruncated: true } : {}), ...extra };
   }
   return { ...extra };
 }
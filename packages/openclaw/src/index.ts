@@ -4,5 +4,10 @@ export * from "./config.js";
 export * from "./commands.js";
 export * from "./handlers.js";
 export * from "./storage.js";
+export * from "./rate-limit.js";
 export * from "./recommend.js";
 export * from "./setup.js";
+export * from "./trace.js";
+export * from "./simulate.js";
+export * from "./reload.js";
+export * from "./policy-schema.js";
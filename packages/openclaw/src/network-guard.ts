@@ -0,0 +1,174 @@
+import net from "node:net";
+import { normalizeToolName, type NormalizedToolRule } from "@mindaiproject/firewall-core";
+
+export type NetworkGuardResult = {
+  allowed: boolean;
+  reason: string;
+  /** Lower-cased hosts of every URL found in the params. */
+  hosts: string[];
+  /** One entry per URL that failed a check. */
+  violations: Array<{ host: string; reason: string }>;
+};
+
+type NetworkGuardInput = {
+  toolName: string;
+  params: Record<string, unknown>;
+  /** Network settings from the tool rule; all optional. */
+  rule?: Pick<NormalizedToolRule, "allowDomains" | "denyDomains" | "allowSchemes" | "blockPrivateNetworks">;
+};
+
+// Tools whose params are checked by the network guard.
+export const NETWORK_TOOLS = new Set(["web_fetch", "browser", "web_search"]);
+
+const DEFAULT_SCHEMES = ["http", "https"];
+// Param keys whose value is treated as a URL even without a "scheme://" prefix.
+const URL_KEYS = new Set(["url", "urls", "href", "targeturl", "target_url", "link", "src"]);
+const EMBEDDED_URL_PATTERN = /\b[a-z][a-z0-9+.-]*:\/\/[^\s"'<>]+/gi;
+const MAX_DEPTH = 4;
+const LOCAL_NAME_SUFFIXES = [".localhost", ".local", ".internal"];
+
+// Evaluate the URLs a network tool would reach against domain and scheme rules.
+export function evaluateNetworkAllowlist(input: NetworkGuardInput): NetworkGuardResult {
+  const toolName = normalizeToolName(input.toolName);
+  const urls = NETWORK_TOOLS.has(toolName) ? extractToolUrls(input.params) : [];
+  if (urls.length === 0) {
+    return { allowed: true, reason: "No URL found.", hosts: [], violations: [] };
+  }
+
+  const rule = input.rule ?? {};
+  const schemes = (rule.allowSchemes && rule.allowSchemes.length > 0 ? rule.allowSchemes : DEFAULT_SCHEMES).map(
+    (scheme) => scheme.toLowerCase().replace(/:$/, "")
+  );
+  const allowDomains = normalizeDomainList(rule.allowDomains);
+  const denyDomains = normalizeDomainList(rule.denyDomains);
+  const blockPrivate = rule.blockPrivateNetworks !== false;
+  const hosts: string[] = [];
+  const violations: NetworkGuardResult["violations"] = [];
+
+  for (const raw of urls) {
+    let url: URL;
+    try {
+      url = new URL(raw);
+    } catch {
+      violations.push({ host: "", reason: "URL could not be parsed." });
+      continue;
+    }
+    const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+    hosts.push(host);
+    const scheme = url.protocol.replace(/:$/, "").toLowerCase();
+    if (!schemes.includes(scheme)) {
+      violations.push({ host, reason: `Scheme ${scheme}: is not allowed.` });
+      continue;
+    }
+    if (blockPrivate && isPrivateHost(host)) {
+      violations.push({ host, reason: "Host is a loopback, private, or link-local address." });
+      continue;
+    }
+    if (denyDomains.some((pattern) => matchDomain(pattern, host))) {
+      violations.push({ host, reason: "Domain is on the deny list." });
+      continue;
+    }
+    if (allowDomains.length > 0 && !allowDomains.some((pattern) => matchDomain(pattern, host))) {
+      violations.push({ host, reason: "Domain is not on the allow list." });
+    }
+  }
+
+  const uniqueHosts = Array.from(new Set(hosts));
+  const first = violations[0];
+  if (first) {
+    return { allowed: false, reason: first.reason, hosts: uniqueHosts, violations };
+  }
+  return { allowed: true, reason: "Network guard matched.", hosts: uniqueHosts, violations: [] };
+}
+
+// Collect URL strings from tool params: URL-named keys, plus "scheme://" URLs inside any other string.
+export function extractToolUrls(params: Record<string, unknown>): string[] {
+  const urls: string[] = [];
+  const visit = (value: unknown, key: string, depth: number) => {
+    if (typeof value === "string") {
+      const trimmed = value.trim();
+      if (URL_KEYS.has(key.toLowerCase())) {
+        if (trimmed && trimmed !== "about:blank") {
+          urls.push(trimmed);
+        }
+        return;
+      }
+      urls.push(...(trimmed.match(EMBEDDED_URL_PATTERN) ?? []));
+      return;
+    }
+    if (depth >= MAX_DEPTH || !value || typeof value !== "object") {
+      return;
+    }
+    if (Array.isArray(value)) {
+      value.forEach((entry) => visit(entry, key, depth + 1));
+      return;
+    }
+    for (const [childKey, child] of Object.entries(value as Record<string, unknown>)) {
+      visit(child, childKey, depth + 1);
+    }
+  };
+  if (params && typeof params === "object") {
+    visit(params, "", 0);
+  }
+  return Array.from(new Set(urls));
+}
+
+// "example.com" matches only that host; "*.example.com" matches its subdomains.
+export function matchDomain(pattern: string, host: string): boolean {
+  if (pattern.startsWith("*.")) {
+    return host.endsWith(pattern.slice(1));
+  }
+  return host === pattern;
+}
+
+// Literal loopback/private/link-local IPs and local-only names. No DNS lookups.
+export function isPrivateHost(host: string): boolean {
+  if (host === "localhost" || LOCAL_NAME_SUFFIXES.some((suffix) => host.endsWith(suffix))) {
+    return true;
+  }
+  const family = net.isIP(host);
+  if (family === 4) {
+    return isPrivateIPv4(host);
+  }
+  if (family === 6) {
+    return isPrivateIPv6(host);
+  }
+  return false;
+}
+
+function isPrivateIPv4(host: string): boolean {
+  const [a = 0, b = 0] = host.split(".").map((part) => Number(part));
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+function isPrivateIPv6(host: string): boolean {
+  const normalized = host.toLowerCase();
+  if (normalized === "::" || normalized === "::1") {
+    return true;
+  }
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped?.[1]) {
+    return isPrivateIPv4(mapped[1]);
+  }
+  const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex?.[1] && mappedHex[2]) {
+    const high = parseInt(mappedHex[1], 16);
+    const low = parseInt(mappedHex[2], 16);
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized);
+}
+
+function normalizeDomainList(list: string[] | undefined): string[] {
+  return (list ?? [])
+    .filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
+    .map((entry) => entry.trim().toLowerCase().replace(/\.$/, ""));
+}
@@ -47,6 +47,7 @@ export type OpenClawPluginCliContext = {
 
 export type PluginHookBeforeToolCallEvent = {
   toolName: string;
+  toolCallId?: string;
   params: Record<string, unknown>;
 };
 
@@ -54,6 +55,7 @@ export type PluginHookToolContext = {
   agentId?: string;
   sessionKey?: string;
   toolName: string;
+  toolCallId?: string;
 };
 
 export type PluginHookBeforeToolCallResult = {
@@ -0,0 +1,171 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  normalizeToolName,
+  readParamValues,
+  type PathOperation,
+  type PathParamLocation
+} from "@mindaiproject/firewall-core";
+import { extractCommandPathOperations, readExecCommand, type CommandPathOperation } from "./command-guard.js";
+
+// Read the file paths a tool call touches from its params (unresolved), with the
+// operation on each.
+export type PathExtractor = (params: Record<string, unknown>) => CommandPathOperation[];
+
+export type PathExtractionOptions = {
+  /** Policy-declared param locations, read in addition to the tool's extractor. */
+  pathParams?: PathParamLocation[];
+  /** Extractors by tool name, replacing or adding to BUILTIN_PATH_EXTRACTORS. */
+  extractors?: Record<string, PathExtractor>;
+};
+
+const FILE_TOOL_KEYS = ["path", "file_path", "filePath"];
+const FILE_TOOL_LIST_KEYS = ["paths", "file_paths", "filePaths"];
+const BROWSER_UPLOAD_KEYS = ["paths", "files", "uploadPaths"];
+const BROWSER_OUTPUT_KEYS = ["path", "outputPath", "downloadPath", "savePath"];
+const IMAGE_KEYS = ["image", "images", "imagePath", "path", "paths", "file"];
+const PATCH_MARKERS: Array<[string, PathOperation]> = [
+  ["*** Add File: ", "write"],
+  ["*** Update File: ", "write"],
+  ["*** Delete File: ", "delete"],
+  ["*** Move to: ", "write"]
+];
+
+export const BUILTIN_PATH_EXTRACTORS: Record<string, PathExtractor> = {
+  read: (params) => extractFileToolPaths(params, "read"),
+  write: (params) => extractFileToolPaths(params, "write"),
+  edit: (params) => extractFileToolPaths(params, "write"),
+  apply_patch: (params) => extractPatchOperations(typeof params.input === "string" ? params.input : ""),
+  exec: extractExecPaths,
+  process: extractExecPaths,
+  browser: extractBrowserPaths,
+  image: (params) => readPathKeys(params, IMAGE_KEYS, "read")
+};
+
+// Paths a tool call touches, with the operation on each: the tool's extractor
+// (built-in or given) first, then any policy-declared param locations.
+export function extractToolPathOperations(
+  toolName: string,
+  params: Record<string, unknown>,
+  options: PathExtractionOptions = {}
+): CommandPathOperation[] {
+  if (!params || typeof params !== "object") {
+    return [];
+  }
+  const normalized = normalizeToolName(toolName);
+  const extractor = options.extractors?.[normalized] ?? BUILTIN_PATH_EXTRACTORS[normalized];
+  const operations = extractor ? [...extractor(params)] : [];
+  for (const location of options.pathParams ?? []) {
+    const operation = location.operation ?? "write";
+    for (const value of readParamValues(params, location.field)) {
+      operations.push(...readPathValues(value).map((entry) => ({ path: entry, operation })));
+    }
+  }
+  return operations;
+}
+
+// read, write, and edit: `path` (or `file_path`/`filePath`) plus any path lists.
+function extractFileToolPaths(params: Record<string, unknown>, operation: PathOperation): CommandPathOperation[] {
+  const single = FILE_TOOL_KEYS.map((key) => params[key]).find((value) => typeof value === "string" && value);
+  const list = FILE_TOOL_LIST_KEYS.map((key) => readStringArray(params[key])).find((value) => value !== null) ?? [];
+  const combined = typeof single === "string" ? [single, ...list] : list;
+  return combined.filter(Boolean).map((entry) => ({ path: entry, operation }));
+}
+
+// apply_patch: Add File and Update File write, Delete File deletes, and a move
+// deletes the file being updated and writes its destination.
+function extractPatchOperations(input: string): CommandPathOperation[] {
+  if (!input.trim()) {
+    return [];
+  }
+  const results: CommandPathOperation[] = [];
+  for (const line of input.split(/\r?\n/)) {
+    for (const [marker, operation] of PATCH_MARKERS) {
+      if (line.startsWith(marker)) {
+        const value = line.slice(marker.length).trim();
+        if (!value) {
+          break;
+        }
+        const previous = results[results.length - 1];
+        if (marker === "*** Move to: " && previous) {
+          previous.operation = "delete";
+        }
+        results.push({ path: value, operation });
+        break;
+      }
+    }
+  }
+  return results;
+}
+
+// exec and process: the working directory, path-like argv tokens, and redirection
+// targets. Relative paths are taken relative to `workdir` (or `cwd`) when one is set.
+function extractExecPaths(params: Record<string, unknown>): CommandPathOperation[] {
+  const cwd = [params.workdir, params.cwd].find((value): value is string => typeof value === "string" && value.trim().length > 0);
+  const command = readExecCommand(params);
+  const operations = command ? extractCommandPathOperations(command) : [];
+  if (!cwd) {
+    return operations;
+  }
+  const relativeTo = (entry: string) =>
+    path.isAbsolute(entry) || entry === "~" || entry.startsWith("~/") ? entry : path.join(cwd, entry);
+  return [
+    { path: cwd, operation: "read" },
+    ...operations.map((entry) => ({ ...entry, path: relativeTo(entry.path) }))
+  ];
+}
+
+// browser: file:// URLs are reads, uploads read local files, and downloads,
+// screenshots, and PDFs write their output path.
+function extractBrowserPaths(params: Record<string, unknown>): CommandPathOperation[] {
+  const operations: CommandPathOperation[] = [];
+  for (const key of ["url", "targetUrl"]) {
+    const value = params[key];
+    if (typeof value === "string" && value.startsWith("file://")) {
+      operations.push(...readPathValues(value).map((entry) => ({ path: entry, operation: "read" as const })));
+    }
+  }
+  const action = typeof params.action === "string" ? params.action.trim().toLowerCase() : "";
+  if (action === "upload") {
+    return [...operations, ...readPathKeys(params, [...BROWSER_UPLOAD_KEYS, "path"], "read")];
+  }
+  return [
+    ...operations,
+    ...readPathKeys(params, BROWSER_UPLOAD_KEYS, "read"),
+    ...readPathKeys(params, BROWSER_OUTPUT_KEYS, "write")
+  ];
+}
+
+function readPathKeys(params: Record<string, unknown>, keys: string[], operation: PathOperation): CommandPathOperation[] {
+  return keys.flatMap((key) => readPathValues(params[key]).map((entry) => ({ path: entry, operation })));
+}
+
+// Strings and string lists that look like local paths; file:// URLs become paths,
+// and other URLs (http:, data:, ...) are skipped.
+function readPathValues(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((entry) => (typeof entry === "string" ? readPathValues(entry) : []));
+  }
+  if (typeof value !== "string" || !value.trim()) {
+    return [];
+  }
+  const trimmed = value.trim();
+  if (trimmed.startsWith("file://")) {
+    try {
+      return [fileURLToPath(trimmed)];
+    } catch {
+      return [];
+    }
+  }
+  if (/^[a-zA-Z][a-zA-Z0-9+.-]+:/.test(trimmed) && !/^[a-zA-Z]:[\\/]/.test(trimmed)) {
+    return [];
+  }
+  return [trimmed];
+}
+
+function readStringArray(value: unknown): string[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  return value.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0);
+}
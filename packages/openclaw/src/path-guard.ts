@@ -1,134 +1,443 @@
+import fs from "node:fs";
 import path from "node:path";
-import { normalizeToolName } from "@mindaiproject/firewall-core";
+import os from "node:os";
+import {
+  normalizeToolName,
+  type PathOperation,
+  type WorkspaceScopes
+} from "@mindaiproject/firewall-core";
+import type { CommandPathOperation } from "./command-guard.js";
+import { extractToolPathOperations, type PathExtractionOptions } from "./path-extractors.js";
+
+export type PathDenyMatch = {
+  path: string;
+  pattern: string;
+  source: "denyPaths" | "sensitive";
+};
+
+export type PathViolation =
+  | "nul_byte"
+  | "deny_pattern"
+  | "sensitive_path"
+  | "symlink_escape"
+  | "traversal_escape"
+  | "outside_allowlist"
+  | "outside_workspace"
+  | "read_only"
+  | "no_delete";
 
 export type PathGuardResult = {
   allowed: boolean;
   reason: string;
+  /** Why the call was blocked, when it was. */
+  violation?: PathViolation;
+  /** Which check blocked the call: the tool's allowPaths or the policy's workspaces. */
+  blockedBy?: "allowPaths" | "workspaces";
   toolPaths: string[];
   unmatched: string[];
+  /** Paths matched by a deny pattern; these block the call whatever allowPaths says. */
+  denied: PathDenyMatch[];
 };
 
-type PathGuardInput = {
+export type WorkspaceScope = "readOnly" | "readWrite" | "noDelete";
+
+type PathGuardInput = PathExtractionOptions & {
   toolName: string;
   params: Record<string, unknown>;
-  allowPaths: string[];
+  allowPaths?: string[];
+  /** Glob patterns (`**`, `*`, `?`, `{a,b}`) that are never allowed. */
+  denyPaths?: string[];
+  /** Built-in sensitive locations, checked after denyPaths (see SENSITIVE_PATHS). */
+  sensitivePaths?: string[];
+  /** Read-only, read-write, and no-delete roots, checked per operation. */
+  workspaces?: WorkspaceScopes;
   resolvePath?: (input: string) => string;
 };
 
-// Evaluate tool path usage against a configured allowlist.
+// Credential stores, keychains, browser profiles, and OpenClaw's own state
+// (config, sessions, and the firewall state dir). On unless defaults.sensitivePaths is false.
+export const SENSITIVE_PATHS = [
+  "~/.ssh",
+  "~/.aws",
+  "~/.gnupg",
+  "~/.kube",
+  "~/.config/gcloud",
+  "~/.docker/config.json",
+  "~/.netrc",
+  "~/.openclaw",
+  "~/Library/Keychains",
+  "/Library/Keychains",
+  "~/.local/share/keyrings",
+  "~/.password-store",
+  "~/Library/Application Support/Google/Chrome",
+  "~/Library/Application Support/BraveSoftware",
+  "~/Library/Application Support/Firefox",
+  "~/Library/Safari",
+  "~/.config/google-chrome",
+  "~/.config/chromium",
+  "~/.config/BraveSoftware",
+  "~/.mozilla/firefox"
+];
+
+const VIOLATION_REASONS: Record<PathViolation, string> = {
+  nul_byte: "Path contains a NUL byte.",
+  deny_pattern: "Path matches a deny pattern.",
+  sensitive_path: "Path is in a sensitive location.",
+  symlink_escape: "Path leaves the allowed paths through a symlink.",
+  traversal_escape: "Path leaves the allowed paths through '..' segments.",
+  outside_allowlist: "Path is outside the allowed path list.",
+  outside_workspace: "Path is outside every workspace.",
+  read_only: "Path is in a read-only workspace.",
+  no_delete: "Path is in a workspace where nothing may be deleted."
+};
+
+// What each workspace scope permits.
+const SCOPE_OPERATIONS: Record<WorkspaceScope, Set<PathOperation>> = {
+  readOnly: new Set(["read"]),
+  noDelete: new Set(["read", "write"]),
+  readWrite: new Set(["read", "write", "delete"])
+};
+
+type ResolvedRoot = ResolvedToolPath & { stat: fs.Stats | null };
+
+const PATH_REQUIRED_TOOLS = new Set(["read", "write", "edit", "apply_patch"]);
+
+// Symlink hops followed before giving up on a path (same limit as Linux).
+const MAX_SYMLINK_HOPS = 40;
+
+type ResolvedToolPath = {
+  input: string;
+  operation: PathOperation;
+  /** Absolute path after `~` expansion, without following symlinks. */
+  lexical: string;
+  /** Where the path really leads (see resolveRealPath). */
+  real: string;
+};
+
+// Agent workspaces live under ~/.openclaw by default and stay reachable.
+const SENSITIVE_PATH_EXCEPTIONS = ["~/.openclaw/workspace", "~/.openclaw/workspace-*"];
+
+// Evaluate tool path usage against deny patterns, then the allowlist (if any).
 export function evaluatePathAllowlist(input: PathGuardInput): PathGuardResult {
   const toolName = normalizeToolName(input.toolName);
-  const toolPaths = extractToolPaths(toolName, input.params);
+  const operations = extractToolPathOperations(toolName, input.params, input);
+  const toolPaths = Array.from(new Set(operations.map((entry) => entry.path)));
+  const allowList = input.allowPaths ?? [];
+  // File tools and tools with declared pathParams always name a path; for others
+  // (exec, browser, ...) a call without one has nothing to check.
+  const pathRequired = PATH_REQUIRED_TOOLS.has(toolName) || (input.pathParams ?? []).length > 0;
+  if (toolPaths.length === 0 && (!pathRequired || allowList.length === 0)) {
+    return {
+      allowed: true,
+      reason: toolName === "exec" ? "Command has no path arguments." : "No path arguments.",
+      toolPaths: [],
+      unmatched: [],
+      denied: []
+    };
+  }
   if (toolPaths.length === 0) {
     return {
       allowed: false,
       reason: "No path argument found for path allowlist enforcement.",
       toolPaths: [],
-      unmatched: []
+      unmatched: [],
+      denied: []
     };
   }
 
-  const allowPaths = input.allowPaths
-    .filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
-    .map((entry) => resolvePathSafe(input.resolvePath, entry))
-    .filter((entry): entry is string => typeof entry === "string" && entry.length > 0);
-
-  const normalizedToolPaths = toolPaths
-    .map((entry) => resolvePathSafe(input.resolvePath, entry))
-    .filter((entry): entry is string => typeof entry === "string" && entry.length > 0);
+  if (toolPaths.some((entry) => entry.includes("\0"))) {
+    return {
+      allowed: false,
+      reason: VIOLATION_REASONS.nul_byte,
+      violation: "nul_byte",
+      toolPaths: [],
+      unmatched: [],
+      denied: []
+    };
+  }
 
-  const unmatched = normalizedToolPaths.filter(
-    (candidate) => !allowPaths.some((allowed) => isPathAllowed(candidate, allowed))
-  );
+  const resolvedPaths = operations
+    .map((entry) => resolveToolPath(input.resolvePath, entry.path, entry.operation))
+    .filter((entry): entry is ResolvedToolPath => entry !== null);
+  const normalizedToolPaths = Array.from(new Set(resolvedPaths.map((entry) => entry.real)));
 
-  if (unmatched.length > 0) {
+  // Deny patterns see both the path as written and where it really leads.
+  const denied = resolvedPaths.flatMap((entry) => {
+    const match = findDenyMatch(entry.real, input.denyPaths ?? [], input.sensitivePaths ?? []) ??
+      findDenyMatch(entry.lexical, input.denyPaths ?? [], input.sensitivePaths ?? []);
+    return match ? [match] : [];
+  });
+  if (denied.length > 0) {
+    const first = denied[0] as PathDenyMatch;
     return {
       allowed: false,
-      reason: "Path is outside the allowed path list.",
+      reason: first.source === "sensitive"
+        ? `Path is in a sensitive location (${first.pattern}).`
+        : `Path matches deny pattern ${first.pattern}.`,
+      violation: first.source === "sensitive" ? "sensitive_path" : "deny_pattern",
       toolPaths: normalizedToolPaths,
-      unmatched
+      unmatched: [],
+      denied
     };
   }
 
+  const allowRoots = resolveRoots(input.resolvePath, allowList);
+  const escapes = allowList.length > 0
+    ? resolvedPaths.flatMap((entry) =>
+        allowRoots.some((root) => isInsideRoot(entry.real, root.real, root.stat))
+          ? []
+          : [{ path: entry.real, violation: classifyEscape(entry, allowRoots, "outside_allowlist") }]
+      )
+    : [];
+  if (escapes.length > 0) {
+    return blockedResult(escapes, normalizedToolPaths, "allowPaths");
+  }
+
+  const scopeViolations = input.workspaces
+    ? findWorkspaceViolations(resolvedPaths, input.workspaces, input.resolvePath)
+    : [];
+  if (scopeViolations.length > 0) {
+    return blockedResult(scopeViolations, normalizedToolPaths, "workspaces");
+  }
+
   return {
     allowed: true,
-    reason: "Path allowlist matched.",
+    reason: allowList.length > 0
+      ? "Path allowlist matched."
+      : input.workspaces
+        ? "Paths are within their workspace scopes."
+        : "No deny pattern matched.",
     toolPaths: normalizedToolPaths,
-    unmatched: []
+    unmatched: [],
+    denied: []
   };
 }
 
-function extractToolPaths(toolName: string, params: Record<string, unknown>): string[] {
-  if (!params || typeof params !== "object") {
-    return [];
+// Resolve a path the way the guard sees it: `~` expanded, made absolute, and with
+// symlinks followed (see resolveRealPath).
+export function resolveGuardPath(input: string, resolver?: (input: string) => string): string | null {
+  return resolveToolPath(resolver, input, "read")?.real ?? null;
+}
+
+// Match a resolved path against a glob. Patterns starting with `/` or `~` are
+// anchored at the root; others match at any depth (`.env` = `**/.env`). A match on
+// a directory covers everything below it.
+export function matchPathPattern(pattern: string, candidate: string): boolean {
+  const normalized = expandHome(pattern.trim()).replace(/\\/g, "/").replace(/\/+$/, "");
+  if (!normalized) {
+    return false;
   }
-  const record = params as Record<string, unknown>;
-  const normalized = normalizeToolName(toolName);
+  const anchored = normalized.startsWith("/") || /^[a-zA-Z]:\//.test(normalized);
+  const body = compilePathGlob(normalized);
+  const regex = new RegExp(`${anchored ? "^" : "(?:^|/)"}${body}(?:/.*)?$`);
+  return regex.test(candidate.replace(/\\/g, "/"));
+}
+
+function findDenyMatch(candidate: string, denyPaths: string[], sensitivePaths: string[]): PathDenyMatch | null {
+  const denyPattern = denyPaths.find((pattern) => matchPathPattern(pattern, candidate));
+  if (denyPattern) {
+    return { path: candidate, pattern: denyPattern, source: "denyPaths" };
+  }
+  if (SENSITIVE_PATH_EXCEPTIONS.some((pattern) => matchPathPattern(pattern, candidate))) {
+    return null;
+  }
+  const sensitive = sensitivePaths.find((pattern) => matchPathPattern(pattern, candidate));
+  return sensitive ? { path: candidate, pattern: sensitive, source: "sensitive" } : null;
+}
 
-  if (normalized === "read" || normalized === "write" || normalized === "edit") {
-    const pathValue =
-      (typeof record.path === "string" && record.path) ||
-      (typeof record.file_path === "string" && record.file_path) ||
-      (typeof record.filePath === "string" && record.filePath) ||
-      "";
-    const pathList =
-      readStringArray(record.paths) ??
-      readStringArray(record.file_paths) ??
-      readStringArray(record.filePaths) ??
-      [];
-    const combined = pathValue ? [pathValue, ...pathList] : pathList;
-    return combined.filter(Boolean);
+// Translate `**`, `*`, `?`, and `{a,b}` into a regex body; everything else is literal.
+function compilePathGlob(pattern: string): string {
+  let body = "";
+  let braceDepth = 0;
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index] as string;
+    if (char === "*" && pattern[index + 1] === "*") {
+      const slash = pattern[index + 2] === "/";
+      body += slash ? "(?:.*/)?" : ".*";
+      index += slash ? 2 : 1;
+    } else if (char === "*") {
+      body += "[^/]*";
+    } else if (char === "?") {
+      body += "[^/]";
+    } else if (char === "{") {
+      braceDepth += 1;
+      body += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth -= 1;
+      body += ")";
+    } else if (char === "," && braceDepth > 0) {
+      body += "|";
+    } else {
+      body += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
   }
+  return body + ")".repeat(braceDepth);
+}
 
-  if (normalized === "apply_patch") {
-    const input = typeof record.input === "string" ? record.input : "";
-    return extractPatchPaths(input);
+function expandHome(input: string): string {
+  if (input === "~") {
+    return os.homedir();
   }
+  return input.startsWith("~/") ? path.join(os.homedir(), input.slice(2)) : input;
+}
+
+// Extract and resolve the filesystem paths a tool call would touch, with the operation on each.
+export function collectToolPaths(
+  toolName: string,
+  params: Record<string, unknown>,
+  resolvePath?: (input: string) => string,
+  options: PathExtractionOptions = {}
+): CommandPathOperation[] {
+  return extractToolPathOperations(toolName, params, options).flatMap((entry) => {
+    const resolved = resolveGuardPath(entry.path, resolvePath);
+    return resolved ? [{ path: resolved, operation: entry.operation }] : [];
+  });
+}
 
-  return [];
+// Whether a workspace scope permits an operation.
+export function workspaceScopeAllows(scope: WorkspaceScope, operation: PathOperation): boolean {
+  return SCOPE_OPERATIONS[scope].has(operation);
 }
 
-function readStringArray(value: unknown): string[] | null {
-  if (!Array.isArray(value)) {
+function resolveToolPath(
+  resolver: ((input: string) => string) | undefined,
+  input: string,
+  operation: PathOperation
+): ResolvedToolPath | null {
+  if (input.includes("\0")) {
+    return null;
+  }
+  try {
+    const expanded = expandHome(input);
+    const lexical = path.resolve(resolver ? resolver(expanded) : expanded);
+    return { input, operation, lexical, real: resolveRealPath(lexical) };
+  } catch {
     return null;
   }
-  const entries = value.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0);
-  return entries.length > 0 ? entries : [];
-}
-
-function extractPatchPaths(input: string): string[] {
-  if (!input.trim()) {
-    return [];
-  }
-  const markers = ["*** Add File: ", "*** Update File: ", "*** Delete File: ", "*** Move to: "];
-  const lines = input.split(/\r?\n/);
-  const results: string[] = [];
-  for (const line of lines) {
-    for (const marker of markers) {
-      if (line.startsWith(marker)) {
-        const value = line.slice(marker.length).trim();
-        if (value) {
-          results.push(value);
-        }
-        break;
-      }
+}
+
+// Follow symlinks with realpath. For paths that do not exist yet, resolve the
+// nearest existing ancestor and append the rest; dangling symlinks are followed
+// to their target so a write through them is judged by where it would land.
+function resolveRealPath(lexical: string, hops = 0): string {
+  try {
+    return fs.realpathSync.native(lexical);
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code !== "ENOENT" && code !== "ENOTDIR") {
+      return lexical;
     }
   }
-  return Array.from(new Set(results));
+  const link = readLinkSafe(lexical);
+  if (link !== null && hops < MAX_SYMLINK_HOPS) {
+    return resolveRealPath(path.resolve(path.dirname(lexical), link), hops + 1);
+  }
+  const parent = path.dirname(lexical);
+  if (parent === lexical) {
+    return lexical;
+  }
+  return path.join(resolveRealPath(parent, hops), path.basename(lexical));
 }
 
-function resolvePathSafe(
-  resolver: ((input: string) => string) | undefined,
-  input: string
-): string | null {
+function readLinkSafe(filePath: string): string | null {
   try {
-    const resolved = resolver ? resolver(input) : input;
-    return path.resolve(resolved);
+    return fs.lstatSync(filePath).isSymbolicLink() ? fs.readlinkSync(filePath) : null;
   } catch {
     return null;
   }
 }
 
+function statSafe(filePath: string): fs.Stats | null {
+  try {
+    return fs.statSync(filePath);
+  } catch {
+    return null;
+  }
+}
+
+// Inside a root by path prefix, or by device and inode: an existing ancestor
+// that is the root itself under another name (bind mount, case-insensitive alias).
+function isInsideRoot(candidate: string, root: string, rootStat: fs.Stats | null): boolean {
+  if (isPathAllowed(candidate, root)) {
+    return true;
+  }
+  if (!rootStat) {
+    return false;
+  }
+  for (let current = candidate; ; current = path.dirname(current)) {
+    const stat = statSafe(current);
+    if (stat && stat.dev === rootStat.dev && stat.ino === rootStat.ino) {
+      return true;
+    }
+    if (path.dirname(current) === current) {
+      return false;
+    }
+  }
+}
+
+function resolveRoots(resolver: ((input: string) => string) | undefined, roots: string[]): ResolvedRoot[] {
+  return roots
+    .filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
+    .map((entry) => resolveToolPath(resolver, entry, "read"))
+    .filter((entry): entry is ResolvedToolPath => entry !== null)
+    .map((entry) => ({ ...entry, stat: statSafe(entry.real) }));
+}
+
+// Each path falls under the deepest workspace root that contains it.
+function findWorkspaceViolations(
+  paths: ResolvedToolPath[],
+  workspaces: WorkspaceScopes,
+  resolver: ((input: string) => string) | undefined
+): Array<{ path: string; violation: PathViolation }> {
+  const roots = (["readOnly", "noDelete", "readWrite"] as const).flatMap((scope) =>
+    resolveRoots(resolver, workspaces[scope] ?? []).map((root) => ({ ...root, scope }))
+  );
+  return paths.flatMap((entry) => {
+    const scope = roots
+      .filter((root) => isInsideRoot(entry.real, root.real, root.stat))
+      .sort((a, b) => b.real.length - a.real.length)[0]?.scope;
+    if (!scope) {
+      return [{ path: entry.real, violation: classifyEscape(entry, roots, "outside_workspace") }];
+    }
+    if (workspaceScopeAllows(scope, entry.operation)) {
+      return [];
+    }
+    return [{ path: entry.real, violation: scope === "readOnly" ? "read_only" : "no_delete" } as const];
+  });
+}
+
+// A path outside every root: say whether a symlink or `..` took it there.
+function classifyEscape(entry: ResolvedToolPath, roots: ResolvedRoot[], fallback: PathViolation): PathViolation {
+  if (roots.some((root) => isPathAllowed(entry.lexical, root.lexical))) {
+    return "symlink_escape";
+  }
+  return hasTraversalSegment(entry.input) ? "traversal_escape" : fallback;
+}
+
+// Report the first escape (symlink or `..`) ahead of plain misses.
+function blockedResult(
+  violations: Array<{ path: string; violation: PathViolation }>,
+  toolPaths: string[],
+  blockedBy: NonNullable<PathGuardResult["blockedBy"]>
+): PathGuardResult {
+  const plain = new Set<PathViolation>(["outside_allowlist", "outside_workspace"]);
+  const violation = (violations.find((entry) => !plain.has(entry.violation)) ?? violations[0])
+    ?.violation as PathViolation;
+  return {
+    allowed: false,
+    reason: VIOLATION_REASONS[violation],
+    violation,
+    blockedBy,
+    toolPaths,
+    unmatched: Array.from(new Set(violations.map((entry) => entry.path))),
+    denied: []
+  };
+}
+
+function hasTraversalSegment(input: string): boolean {
+  return input.split(/[\\/]/).includes("..");
+}
+
 function isPathAllowed(candidate: string, allowed: string): boolean {
   if (candidate === allowed) {
     return true;
@@ -0,0 +1,200 @@
+import fs from "node:fs";
+import { isMap, isScalar, isSeq, LineCounter, parseDocument, type Node, type YAMLMap } from "yaml";
+
+// Subset of JSON Schema used by policy.schema.json.
+type SchemaNode = {
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, SchemaNode>;
+  additionalProperties?: boolean | SchemaNode;
+  items?: SchemaNode;
+  required?: string[];
+  anyOf?: SchemaNode[];
+  $ref?: string;
+  description?: string;
+  definitions?: Record<string, SchemaNode>;
+};
+
+export type PolicyIssue = {
+  file: string;
+  line: number;
+  column: number;
+  /** Location inside the policy, e.g. "tools[2].action". */
+  path: string;
+  message: string;
+};
+
+export type ParsedPolicyFile = {
+  value: unknown;
+  issues: PolicyIssue[];
+  /** True when the YAML itself could not be parsed; `value` is then unusable. */
+  parseFailed: boolean;
+};
+
+const SCHEMA_URL = new URL("../policy.schema.json", import.meta.url);
+let cachedSchema: SchemaNode | null | undefined;
+
+// Load the policy JSON Schema shipped next to openclaw.plugin.json.
+export function loadPolicySchema(): SchemaNode | null {
+  if (cachedSchema !== undefined) {
+    return cachedSchema;
+  }
+  try {
+    cachedSchema = JSON.parse(fs.readFileSync(SCHEMA_URL, "utf8")) as SchemaNode;
+  } catch {
+    cachedSchema = null;
+  }
+  return cachedSchema;
+}
+
+// Parse a policy YAML file and validate it against the schema, keeping line/column positions.
+export function parsePolicyYaml(raw: string, file: string): ParsedPolicyFile {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(raw, { lineCounter, prettyErrors: false });
+  const issues: PolicyIssue[] = [];
+  if (doc.errors.length > 0) {
+    for (const error of doc.errors) {
+      const pos = error.linePos?.[0];
+      issues.push({
+        file,
+        line: pos?.line ?? 1,
+        column: pos?.col ?? 1,
+        path: "",
+        message: `YAML parse error: ${error.message.split("\n")[0]}`
+      });
+    }
+    return { value: null, issues, parseFailed: true };
+  }
+  const schema = loadPolicySchema();
+  if (schema && doc.contents) {
+    validateNode({ root: schema, file, lineCounter, issues }, doc.contents as Node, schema, "");
+  }
+  return { value: doc.toJS(), issues, parseFailed: false };
+}
+
+export function formatPolicyIssue(issue: PolicyIssue): string {
+  const where = issue.path ? `${issue.path}: ` : "";
+  return `${issue.file}:${issue.line}:${issue.column}: ${where}${issue.message}`;
+}
+
+type ValidationContext = {
+  root: SchemaNode;
+  file: string;
+  lineCounter: LineCounter;
+  issues: PolicyIssue[];
+};
+
+function validateNode(ctx: ValidationContext, node: Node | null, schemaInput: SchemaNode, location: string): void {
+  const schema = resolveSchema(ctx.root, schemaInput);
+  if (schema.anyOf) {
+    validateAnyOf(ctx, node, schema, location);
+    return;
+  }
+  const actual = nodeType(node);
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some((type) => type === actual || (type === "integer" && actual === "number"))) {
+      reportIssue(ctx, node, location, `expected ${describeSchema(schema)}, got ${actual}`);
+      return;
+    }
+  }
+  if (schema.enum && isScalar(node) && !schema.enum.includes(node.value)) {
+    reportIssue(ctx, node, location, `invalid value ${JSON.stringify(node.value)}; expected ${describeSchema(schema)}`);
+    return;
+  }
+  if (isMap(node)) {
+    validateMap(ctx, node, schema, location);
+  } else if (isSeq(node) && schema.items) {
+    const items = schema.items;
+    node.items.forEach((item, index) => validateNode(ctx, item as Node, items, `${location}[${index}]`));
+  }
+}
+
+function validateMap(ctx: ValidationContext, node: YAMLMap, schema: SchemaNode, location: string): void {
+  const seen = new Set<string>();
+  for (const pair of node.items) {
+    const keyNode = pair.key as Node | null;
+    const key = isScalar(keyNode) ? String(keyNode.value) : String(keyNode);
+    seen.add(key);
+    const childLocation = location ? `${location}.${key}` : key;
+    const propertySchema = schema.properties?.[key];
+    if (propertySchema) {
+      validateNode(ctx, pair.value as Node | null, propertySchema, childLocation);
+    } else if (schema.additionalProperties === false) {
+      reportIssue(ctx, keyNode, childLocation, `unknown key "${key}"`);
+    } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+      validateNode(ctx, pair.value as Node | null, schema.additionalProperties, childLocation);
+    }
+  }
+  for (const required of schema.required ?? []) {
+    if (!seen.has(required)) {
+      reportIssue(ctx, node, location, `missing required key "${required}"`);
+    }
+  }
+}
+
+function validateAnyOf(ctx: ValidationContext, node: Node | null, schema: SchemaNode, location: string): void {
+  const options = schema.anyOf ?? [];
+  for (const option of options) {
+    const scratch: ValidationContext = { ...ctx, issues: [] };
+    validateNode(scratch, node, option, location);
+    if (scratch.issues.length === 0) {
+      return;
+    }
+  }
+  // Surface the nested issues when exactly one branch has the right shape.
+  const shaped = options.filter((option) => {
+    const resolved = resolveSchema(ctx.root, option);
+    const types = Array.isArray(resolved.type) ? resolved.type : resolved.type ? [resolved.type] : [];
+    return types.includes(nodeType(node));
+  });
+  if (shaped.length === 1 && shaped[0]) {
+    validateNode(ctx, node, shaped[0], location);
+    return;
+  }
+  reportIssue(ctx, node, location, `expected ${describeSchema(schema)}, got ${nodeType(node)}`);
+}
+
+function resolveSchema(root: SchemaNode, schema: SchemaNode): SchemaNode {
+  if (!schema.$ref) {
+    return schema;
+  }
+  const name = schema.$ref.replace(/^#\/definitions\//, "");
+  return root.definitions?.[name] ?? {};
+}
+
+function reportIssue(ctx: ValidationContext, node: Node | null, location: string, message: string): void {
+  const offset = node?.range?.[0] ?? 0;
+  const pos = ctx.lineCounter.linePos(offset);
+  ctx.issues.push({ file: ctx.file, line: pos.line, column: pos.col, path: location, message });
+}
+
+function nodeType(node: Node | null): string {
+  if (!node) {
+    return "null";
+  }
+  if (isMap(node)) {
+    return "object";
+  }
+  if (isSeq(node)) {
+    return "array";
+  }
+  if (isScalar(node)) {
+    const value = node.value;
+    if (value === null) {
+      return "null";
+    }
+    return typeof value;
+  }
+  return "unknown";
+}
+
+function describeSchema(schema: SchemaNode): string {
+  if (schema.description) {
+    return schema.description;
+  }
+  if (schema.enum) {
+    return `one of ${schema.enum.map((entry) => JSON.stringify(entry)).join(", ")}`;
+  }
+  return Array.isArray(schema.type) ? schema.type.join(" or ") : schema.type ?? "a valid value";
+}
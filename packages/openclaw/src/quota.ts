@@ -0,0 +1,247 @@
+import { matchToolNamePattern, normalizeToolName, type Decision } from "@mindaiproject/firewall-core";
+import { loadQuotaStore, saveQuotaStore, StateFileCorruptError, withStateLock, type QuotaStore } from "./storage.js";
+
+export type QuotaScope = "session" | "agent" | "global";
+export type QuotaPeriod = "day" | "week";
+
+export type QuotaRule = {
+  toolName: string;
+  maxCalls: number;
+  period: QuotaPeriod;
+  action?: Decision;
+  scope?: QuotaScope;
+};
+
+export type NormalizedQuotaRule = {
+  id: string;
+  toolName: string;
+  matchAll: boolean;
+  maxCalls: number;
+  period: QuotaPeriod;
+  action: Decision;
+  scope: QuotaScope;
+};
+
+export type QuotaUsage = {
+  rule: NormalizedQuotaRule;
+  /** Bucket key: "<ruleId>:<scopeKey>". */
+  key: string;
+  scopeKey: string;
+  /** Calls counted in the current period, before this call. */
+  used: number;
+  remaining: number;
+  resetsAt: string;
+};
+
+export type QuotaContext = {
+  sessionKey?: string;
+  agentId?: string;
+};
+
+export type QuotaEvaluation = {
+  hit: QuotaUsage | null;
+  usage: QuotaUsage[];
+  /** Set when quotas.json cannot be read; `action` is the strictest applicable rule's action. */
+  storeError?: { message: string; action: Decision };
+};
+
+export type QuotaTracker = {
+  evaluate: (toolName: string, context: QuotaContext, now?: Date) => QuotaEvaluation;
+  consume: (toolName: string, context: QuotaContext, now?: Date) => Promise<void>;
+  status: (now?: Date) => QuotaUsage[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Normalize and validate quota rules from plugin config.
+export function normalizeQuotaRules(raw: unknown): NormalizedQuotaRule[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const rules: NormalizedQuotaRule[] = [];
+  raw.forEach((entry, index) => {
+    if (!entry || typeof entry !== "object") {
+      return;
+    }
+    const record = entry as Record<string, unknown>;
+    const toolNameRaw = typeof record.toolName === "string" ? record.toolName.trim() : "";
+    if (!toolNameRaw) {
+      return;
+    }
+    const normalizedToolName = normalizeToolName(toolNameRaw);
+    const matchAll = normalizedToolName === "*" || normalizedToolName === "all";
+    const maxCalls = Number(record.maxCalls);
+    if (!Number.isFinite(maxCalls) || maxCalls <= 0) {
+      return;
+    }
+    if (record.period !== "day" && record.period !== "week") {
+      return;
+    }
+    const actionRaw = typeof record.action === "string" ? record.action.trim().toUpperCase() : "";
+    const action = actionRaw === "ASK" ? "ASK" : "DENY";
+    const scope = record.scope === "session" || record.scope === "global" ? record.scope : "agent";
+    rules.push({
+      id: `${matchAll ? "*" : normalizedToolName}:${record.period}:${index}`,
+      toolName: normalizedToolName,
+      matchAll,
+      maxCalls: Math.floor(maxCalls),
+      period: record.period,
+      action,
+      scope
+    });
+  });
+  return rules;
+}
+
+// Create a quota tracker whose counts live in quotas.json under the state dir,
+// so they survive restarts. Periods are calendar days / ISO weeks in UTC.
+export function createQuotaTracker(rules: NormalizedQuotaRule[], stateDir: string): QuotaTracker {
+  const matching = (toolName: string) => {
+    const normalizedTool = normalizeToolName(toolName);
+    return rules.filter((rule) => rule.matchAll || matchToolNamePattern(rule.toolName, normalizedTool));
+  };
+
+  const evaluate = (toolName: string, context: QuotaContext, now = new Date()): QuotaEvaluation => {
+    const applicable = matching(toolName);
+    if (applicable.length === 0) {
+      return { hit: null, usage: [] };
+    }
+    const store = readStore(stateDir);
+    if (store instanceof StateFileCorruptError) {
+      const action = applicable.reduce<Decision>(
+        (strictest, rule) => (decisionRank(rule.action) > decisionRank(strictest) ? rule.action : strictest),
+        "ALLOW"
+      );
+      return { hit: null, usage: [], storeError: { message: store.message, action } };
+    }
+    const usage = applicable.map((rule) => {
+      const scopeKey = resolveScopeKey(rule.scope, context);
+      const key = `${rule.id}:${scopeKey}`;
+      return buildUsage(rule, key, scopeKey, store.buckets[key], now);
+    });
+    let hit: QuotaUsage | null = null;
+    for (const entry of usage) {
+      if (entry.remaining <= 0 && (!hit || decisionRank(entry.rule.action) > decisionRank(hit.rule.action))) {
+        hit = entry;
+      }
+    }
+    return { hit, usage };
+  };
+
+  // Count the call under the quotas lock so processes sharing the state dir keep
+  // each other's increments.
+  const consume = async (toolName: string, context: QuotaContext, now = new Date()): Promise<void> => {
+    const applicable = matching(toolName);
+    if (applicable.length === 0) {
+      return;
+    }
+    await withStateLock(
+      "quotas",
+      () => {
+        const store = readStore(stateDir);
+        if (store instanceof StateFileCorruptError) {
+          // Leave the unreadable file in place rather than overwrite it with fresh counts.
+          return;
+        }
+        for (const rule of applicable) {
+          const key = `${rule.id}:${resolveScopeKey(rule.scope, context)}`;
+          const periodStart = startOfPeriod(rule.period, now).toISOString();
+          const bucket = store.buckets[key];
+          store.buckets[key] = bucket?.periodStart === periodStart
+            ? { periodStart, count: bucket.count + 1 }
+            : { periodStart, count: 1 };
+        }
+        saveQuotaStore(pruneBuckets(store, rules, now), stateDir);
+      },
+      stateDir
+    );
+  };
+
+  const status = (now = new Date()) => {
+    const store = readStore(stateDir);
+    if (store instanceof StateFileCorruptError) {
+      return [];
+    }
+    const usage: QuotaUsage[] = [];
+    for (const [key, bucket] of Object.entries(store.buckets)) {
+      const rule = rules.find((entry) => key.startsWith(`${entry.id}:`));
+      if (rule && bucket.periodStart === startOfPeriod(rule.period, now).toISOString()) {
+        usage.push(buildUsage(rule, key, key.slice(rule.id.length + 1), bucket, now));
+      }
+    }
+    return usage;
+  };
+
+  return { evaluate, consume, status };
+}
+
+// Load the store, returning (not throwing) a corruption error so callers can fail closed.
+function readStore(stateDir: string): QuotaStore | StateFileCorruptError {
+  try {
+    return loadQuotaStore(stateDir);
+  } catch (err) {
+    if (err instanceof StateFileCorruptError) {
+      return err;
+    }
+    throw err;
+  }
+}
+
+function buildUsage(
+  rule: NormalizedQuotaRule,
+  key: string,
+  scopeKey: string,
+  bucket: { periodStart: string; count: number } | undefined,
+  now: Date
+): QuotaUsage {
+  const start = startOfPeriod(rule.period, now);
+  const used = bucket?.periodStart === start.toISOString() ? bucket.count : 0;
+  return {
+    rule,
+    key,
+    scopeKey,
+    used,
+    remaining: Math.max(0, rule.maxCalls - used),
+    resetsAt: new Date(start.getTime() + periodLength(rule.period)).toISOString()
+  };
+}
+
+function resolveScopeKey(scope: QuotaScope, context: QuotaContext): string {
+  if (scope === "session") {
+    return `session:${context.sessionKey ?? "no-session"}`;
+  }
+  if (scope === "agent") {
+    return `agent:${context.agentId ?? "no-agent"}`;
+  }
+  return "global";
+}
+
+// Midnight UTC for days; Monday midnight UTC for weeks.
+function startOfPeriod(period: QuotaPeriod, now: Date): Date {
+  const day = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (period === "day") {
+    return day;
+  }
+  const sinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - sinceMonday * DAY_MS);
+}
+
+function periodLength(period: QuotaPeriod): number {
+  return period === "day" ? DAY_MS : 7 * DAY_MS;
+}
+
+// Drop buckets from past periods or from rules that no longer exist.
+function pruneBuckets(store: QuotaStore, rules: NormalizedQuotaRule[], now: Date): QuotaStore {
+  const buckets: QuotaStore["buckets"] = {};
+  for (const [key, bucket] of Object.entries(store.buckets)) {
+    const rule = rules.find((entry) => key.startsWith(`${entry.id}:`));
+    if (rule && bucket.periodStart === startOfPeriod(rule.period, now).toISOString()) {
+      buckets[key] = bucket;
+    }
+  }
+  return { ...store, buckets };
+}
+
+function decisionRank(decision: Decision): number {
+  return decision === "DENY" ? 2 : decision === "ASK" ? 1 : 0;
+}
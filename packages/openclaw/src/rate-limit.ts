@@ -1,23 +1,67 @@
-import { normalizeToolName, type Decision } from "@mindaiproject/firewall-core";
+import {
+  isValidParamPattern,
+  matchParamCondition,
+  matchToolNamePattern,
+  normalizeToolName,
+  type Decision,
+  type ParamCondition
+} from "@mindaiproject/firewall-core";
+import { loadRateLimitStore, saveRateLimitStore, withStateLock } from "./storage.js";
 
-export type RateLimitScope = "session" | "global";
+export type RateLimitScope = "session" | "agent" | "global";
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket" | "fixed-window";
+
+// Weight for calls to a tool, optionally only when its params match.
+export type RateLimitCost = {
+  toolName: string;
+  cost: number;
+  when?: ParamCondition[];
+};
 
 export type RateLimitRule = {
   toolName: string;
+  /** Budget per window: calls, or cost units when `costs` are set. */
   maxCalls: number;
   windowSec: number;
   action?: Decision;
   scope?: RateLimitScope;
+  /** Default "sliding-window". */
+  algorithm?: RateLimitAlgorithm;
+  /** Token-bucket capacity (default maxCalls); the bucket refills maxCalls per windowSec. */
+  burst?: number;
+  /** Per-tool weights; tools listed here draw from this rule's budget too. */
+  costs?: RateLimitCost[];
 };
 
 export type RateLimitHit = {
   rule: NormalizedRateLimitRule;
+  /** Budget already used (calls or cost units) before this call. */
   count: number;
+  /** Cost of this call. */
+  cost: number;
   key: string;
 };
 
+export type RateLimitContext = {
+  sessionKey?: string;
+  agentId?: string;
+};
+
+export type RateLimitBucket =
+  | { kind: "sliding-window"; entries: Array<{ at: number; cost: number }> }
+  | { kind: "fixed-window"; windowStart: number; used: number }
+  | { kind: "token-bucket"; tokens: number; updatedAt: number };
+
+// Where buckets live. `transact` runs a read-modify-write over all buckets; shared
+// stores must make it atomic across processes.
+export type RateLimiterStore = {
+  transact: <T>(fn: (buckets: Map<string, RateLimitBucket>) => T) => Promise<T>;
+};
+
+export type RateLimitStoreKind = "memory" | "file";
+
 export type RateLimiter = {
-  evaluate: (toolName: string, sessionKey?: string) => RateLimitHit | null;
+  evaluate: (toolName: string, context: RateLimitContext, params?: Record<string, unknown>) => Promise<RateLimitHit | null>;
 };
 
 type NormalizedRateLimitRule = {
@@ -28,8 +72,13 @@ type NormalizedRateLimitRule = {
   windowMs: number;
   action: Decision;
   scope: RateLimitScope;
+  algorithm: RateLimitAlgorithm;
+  burst: number;
+  costs: RateLimitCost[];
 };
 
+const ALGORITHMS = new Set<RateLimitAlgorithm>(["sliding-window", "token-bucket", "fixed-window"]);
+
 // Normalize and validate rate limit rules from plugin config.
 export function normalizeRateLimitRules(raw: unknown): NormalizedRateLimitRule[] {
   if (!Array.isArray(raw)) {
@@ -57,7 +106,11 @@ export function normalizeRateLimitRules(raw: unknown): NormalizedRateLimitRule[]
     }
     const actionRaw = typeof record.action === "string" ? record.action.trim().toUpperCase() : "";
     const action = actionRaw === "DENY" ? "DENY" : "ASK";
-    const scope = record.scope === "global" ? "global" : "session";
+    const scope = record.scope === "global" || record.scope === "agent" ? record.scope : "session";
+    const algorithm = ALGORITHMS.has(record.algorithm as RateLimitAlgorithm)
+      ? (record.algorithm as RateLimitAlgorithm)
+      : "sliding-window";
+    const burst = Number(record.burst);
     rules.push({
       id: `${matchAll ? "*" : normalizedToolName}:${index}`,
       toolName: normalizedToolName,
@@ -65,53 +118,216 @@ export function normalizeRateLimitRules(raw: unknown): NormalizedRateLimitRule[]
       maxCalls,
       windowMs: Math.floor(windowSec * 1000),
       action,
-      scope
+      scope,
+      algorithm,
+      burst: Number.isFinite(burst) && burst > 0 ? burst : maxCalls,
+      costs: normalizeCosts(record.costs)
     });
   });
   return rules;
 }
 
-// Create an in-memory rate limiter for tool calls.
-export function createRateLimiter(rules: NormalizedRateLimitRule[]): RateLimiter {
-  const buckets = new Map<string, number[]>();
-
-  const evaluate = (toolName: string, sessionKey?: string): RateLimitHit | null => {
+// Create a rate limiter for tool calls, in memory unless another store is given.
+// Window algorithms count every attempt; the token bucket only charges calls it admits.
+export function createRateLimiter(
+  rules: NormalizedRateLimitRule[],
+  store: RateLimiterStore = createMemoryRateLimiterStore()
+): RateLimiter {
+  const evaluate = async (
+    toolName: string,
+    context: RateLimitContext,
+    params: Record<string, unknown> = {}
+  ): Promise<RateLimitHit | null> => {
     if (rules.length === 0) {
       return null;
     }
     const normalizedTool = normalizeToolName(toolName);
+    const charges = rules.flatMap((rule) => {
+      const cost = resolveCost(rule, normalizedTool, params);
+      return cost === null ? [] : [{ rule, cost, key: `${rule.id}:${resolveScopeKey(rule.scope, context)}` }];
+    });
+    if (charges.length === 0) {
+      return null;
+    }
     const now = Date.now();
-    let hit: RateLimitHit | null = null;
 
-    for (const rule of rules) {
-      if (!rule.matchAll && rule.toolName !== normalizedTool) {
-        continue;
-      }
-      const scopeKey = rule.scope === "session" ? sessionKey ?? "no-session" : "global";
-      const bucketKey = `${rule.id}:${scopeKey}`;
-      const timestamps = buckets.get(bucketKey) ?? [];
-      const cutoff = now - rule.windowMs;
-      while (timestamps.length > 0) {
-        const first = timestamps[0];
-        if (first == null || first >= cutoff) {
-          break;
+    return store.transact((buckets) => {
+      let hit: RateLimitHit | null = null;
+      for (const { rule, cost, key } of charges) {
+        const count = charge(buckets, key, rule, cost, now);
+        if (count !== null) {
+          hit = pickMoreRestrictive(hit, { rule, count, cost, key });
         }
-        timestamps.shift();
       }
-      const count = timestamps.length;
-      timestamps.push(now);
-      buckets.set(bucketKey, timestamps);
+      pruneIdleBuckets(buckets, rules, now);
+      return hit;
+    });
+  };
 
-      if (count >= rule.maxCalls) {
-        const candidate: RateLimitHit = { rule, count, key: bucketKey };
-        hit = pickMoreRestrictive(hit, candidate);
-      }
-    }
+  return { evaluate };
+}
+
+// Keep buckets in process memory (per gateway process).
+export function createMemoryRateLimiterStore(): RateLimiterStore {
+  const buckets = new Map<string, RateLimitBucket>();
+  return { transact: async (fn) => fn(buckets) };
+}
 
-    return hit;
+// Keep buckets in rate-limits.json under the state dir so every process sharing
+// the dir enforces the same budget. Each call holds a lock file while it reads,
+// charges, and atomically rewrites the buckets; waiting for the lock does not block
+// the event loop.
+export function createFileRateLimiterStore(stateDir: string): RateLimiterStore {
+  return {
+    transact: (fn) =>
+      withStateLock(
+        "rate-limits",
+        () => {
+          const file = loadRateLimitStore(stateDir);
+          const buckets = new Map(Object.entries(file.buckets));
+          const result = fn(buckets);
+          saveRateLimitStore({ version: file.version, buckets: Object.fromEntries(buckets) }, stateDir);
+          return result;
+        },
+        stateDir
+      )
   };
+}
 
-  return { evaluate };
+// Pick the bucket store named in plugin config (`rateLimitStore`).
+export function createRateLimiterStore(kind: unknown, stateDir: string): RateLimiterStore {
+  return kind === "file" ? createFileRateLimiterStore(stateDir) : createMemoryRateLimiterStore();
+}
+
+// Short description of a rule's budget for decision reasons.
+export function describeRateLimit(rule: NormalizedRateLimitRule): string {
+  const windowSec = Math.max(1, Math.round(rule.windowMs / 1000));
+  const unit = rule.costs.length > 0 ? "units" : "calls";
+  if (rule.algorithm === "token-bucket") {
+    return `${rule.maxCalls} ${unit} / ${windowSec}s, burst ${rule.burst}`;
+  }
+  if (rule.algorithm === "fixed-window") {
+    return `${rule.maxCalls} ${unit} per fixed ${windowSec}s window`;
+  }
+  return `${rule.maxCalls} ${unit} / ${windowSec}s`;
+}
+
+// Session scope keeps the historical bare session key; agent buckets are prefixed.
+function resolveScopeKey(scope: RateLimitScope, context: RateLimitContext): string {
+  if (scope === "session") {
+    return context.sessionKey ?? "no-session";
+  }
+  if (scope === "agent") {
+    return `agent:${context.agentId ?? "no-agent"}`;
+  }
+  return "global";
+}
+
+// Cost of a call under a rule, or null when the rule does not cover the tool.
+// The first matching cost entry wins; tools matched only by toolName cost 1.
+function resolveCost(rule: NormalizedRateLimitRule, toolName: string, params: Record<string, unknown>): number | null {
+  const entry = rule.costs.find(
+    (cost) =>
+      matchToolNamePattern(cost.toolName, toolName) &&
+      (cost.when ?? []).every((condition) => matchParamCondition(params, condition))
+  );
+  if (entry) {
+    return entry.cost;
+  }
+  if (rule.matchAll || matchToolNamePattern(rule.toolName, toolName)) {
+    return 1;
+  }
+  return rule.costs.some((cost) => matchToolNamePattern(cost.toolName, toolName)) ? 1 : null;
+}
+
+// Apply a call to its bucket. Returns the budget used before the call when the
+// call exceeds the limit, otherwise null.
+function charge(
+  buckets: Map<string, RateLimitBucket>,
+  key: string,
+  rule: NormalizedRateLimitRule,
+  cost: number,
+  now: number
+): number | null {
+  if (rule.algorithm === "token-bucket") {
+    const existing = buckets.get(key);
+    const previous = existing?.kind === "token-bucket" ? existing : { tokens: rule.burst, updatedAt: now };
+    const refill = ((now - previous.updatedAt) / rule.windowMs) * rule.maxCalls;
+    const tokens = Math.min(rule.burst, previous.tokens + refill);
+    const admitted = tokens >= cost;
+    buckets.set(key, { kind: "token-bucket", tokens: admitted ? tokens - cost : tokens, updatedAt: now });
+    return admitted ? null : rule.burst - tokens;
+  }
+  if (rule.algorithm === "fixed-window") {
+    const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+    const existing = buckets.get(key);
+    const used = existing?.kind === "fixed-window" && existing.windowStart === windowStart ? existing.used : 0;
+    buckets.set(key, { kind: "fixed-window", windowStart, used: used + cost });
+    return used + cost > rule.maxCalls ? used : null;
+  }
+  const existing = buckets.get(key);
+  const cutoff = now - rule.windowMs;
+  const entries = (existing?.kind === "sliding-window" ? existing.entries : []).filter((entry) => entry.at >= cutoff);
+  const used = entries.reduce((total, entry) => total + entry.cost, 0);
+  entries.push({ at: now, cost });
+  buckets.set(key, { kind: "sliding-window", entries });
+  return used + cost > rule.maxCalls ? used : null;
+}
+
+// Drop buckets that no longer affect decisions: windows that have passed, full
+// token buckets, and buckets of rules that were removed.
+function pruneIdleBuckets(buckets: Map<string, RateLimitBucket>, rules: NormalizedRateLimitRule[], now: number): void {
+  for (const [key, bucket] of buckets) {
+    const rule = rules.find((entry) => key.startsWith(`${entry.id}:`));
+    if (!rule) {
+      buckets.delete(key);
+      continue;
+    }
+    const idle =
+      bucket.kind === "sliding-window"
+        ? bucket.entries.every((entry) => entry.at < now - rule.windowMs)
+        : bucket.kind === "fixed-window"
+          ? bucket.windowStart + rule.windowMs <= now
+          : bucket.tokens + ((now - bucket.updatedAt) / rule.windowMs) * rule.maxCalls >= rule.burst;
+    if (idle) {
+      buckets.delete(key);
+    }
+  }
+}
+
+function normalizeCosts(raw: unknown): RateLimitCost[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const costs: RateLimitCost[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== "object") {
+      continue;
+    }
+    const record = entry as Record<string, unknown>;
+    const toolName = typeof record.toolName === "string" ? normalizeToolName(record.toolName) : "";
+    const cost = Number(record.cost);
+    if (!toolName || !Number.isFinite(cost) || cost < 0) {
+      continue;
+    }
+    const next: RateLimitCost = { toolName, cost };
+    const when = Array.isArray(record.when) ? record.when : record.when ? [record.when] : [];
+    const conditions = when.filter(
+      (condition): condition is ParamCondition =>
+        Boolean(condition) &&
+        typeof (condition as ParamCondition).field === "string" &&
+        (typeof (condition as ParamCondition).matches !== "string" ||
+          isValidParamPattern((condition as ParamCondition).matches as string))
+    );
+    if (conditions.length !== when.length) {
+      continue;
+    }
+    if (conditions.length > 0) {
+      next.when = conditions;
+    }
+    costs.push(next);
+  }
+  return costs;
 }
 
 function pickMoreRestrictive(current: RateLimitHit | null, next: RateLimitHit): RateLimitHit {
@@ -0,0 +1,196 @@
+import fs from "node:fs";
+import path from "node:path";
+import { buildPolicyIndex, hashObject, sha256Hex, type Policy, type Receipt } from "@mindaiproject/firewall-core";
+import { loadPolicyConfig, type PresetName } from "./config.js";
+import type { FirewallState } from "./handlers.js";
+import { appendReceipt } from "./storage.js";
+
+export type PolicyLoadParams = {
+  preset?: PresetName;
+  policyPath?: string;
+};
+
+export type PolicyReloadTrigger = "watch" | "command";
+
+export type PolicyReloadResult = {
+  applied: boolean;
+  /** Hash of the policy in effect after the reload attempt. */
+  policyHash: string;
+  /** True when the reloaded policy differs from the previous one. */
+  changed: boolean;
+  source: string;
+  warnings: string[];
+  errors: string[];
+};
+
+export type PolicyWatcher = {
+  close: () => void;
+};
+
+const RELOAD_DEBOUNCE_MS = 200;
+
+// Stable hash of a normalized policy (recorded in reload receipts).
+export function hashPolicy(policy: Policy): string {
+  return hashObject(policy).slice(0, 16);
+}
+
+// Re-load the policy from disk and swap it in when it validates.
+// Invalid or missing policy files (for example mid-save in an editor) are
+// rejected and the last good policy stays in effect.
+export function reloadPolicy(state: FirewallState, trigger: PolicyReloadTrigger): PolicyReloadResult {
+  const previousHash = state.policyHash ?? hashPolicy(state.policy);
+  const loaded = loadPolicyConfig({ ...state.policyLoad, requireFile: true });
+  const policyHash = hashPolicy(loaded.policy);
+
+  if (loaded.errors.length > 0) {
+    loaded.errors.forEach((error) => state.logger?.error?.(`[firewall] ${error}`));
+    state.logger?.error?.(
+      `[firewall] Policy reload rejected (${loaded.errors.length} error(s)); keeping policy ${previousHash}.`
+    );
+    const result: PolicyReloadResult = {
+      applied: false,
+      policyHash: previousHash,
+      changed: false,
+      source: state.policySource,
+      warnings: loaded.warnings,
+      errors: loaded.errors
+    };
+    recordReloadReceipt(state, trigger, result, policyHash);
+    return result;
+  }
+
+  loaded.warnings.forEach((warning) => state.logger?.warn?.(`[firewall] ${warning}`));
+  // Build everything first, then assign in one synchronous block so no hook
+  // sees a new policy paired with an old index.
+  const toolIndex = buildPolicyIndex(loaded.policy);
+  state.policy = loaded.policy;
+  state.toolIndex = toolIndex;
+  state.policySource = loaded.source;
+  state.warnings = loaded.warnings;
+  state.policyHash = policyHash;
+  state.watchPaths = loaded.watchPaths;
+  delete state.overlayIndex;
+
+  const result: PolicyReloadResult = {
+    applied: true,
+    policyHash,
+    changed: policyHash !== previousHash,
+    source: loaded.source,
+    warnings: loaded.warnings,
+    errors: []
+  };
+  state.logger?.info?.(`[firewall] Policy reloaded from ${loaded.source} (${policyHash}).`);
+  recordReloadReceipt(state, trigger, result, policyHash);
+  return result;
+}
+
+// Watch the policy file, extended files, and include directories; reload on change.
+// Directories are watched rather than files so editors that replace files on save
+// are still noticed. The watch set is refreshed after every reload.
+export function watchPolicyFiles(state: FirewallState): PolicyWatcher {
+  let watchers: fs.FSWatcher[] = [];
+  let timer: NodeJS.Timeout | undefined;
+  let closed = false;
+
+  const schedule = () => {
+    if (closed) {
+      return;
+    }
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = undefined;
+      // An exception here would be uncaught and take the gateway down; log it instead.
+      try {
+        reloadPolicy(state, "watch");
+        rewatch();
+      } catch (err) {
+        state.logger?.error?.(`[firewall] Policy reload failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }, RELOAD_DEBOUNCE_MS);
+    timer.unref?.();
+  };
+
+  const rewatch = () => {
+    watchers.forEach((watcher) => watcher.close());
+    watchers = [];
+    for (const [dir, names] of groupWatchTargets(state.watchPaths ?? [])) {
+      try {
+        const watcher = fs.watch(dir, { persistent: false }, (_event, filename) => {
+          if (!names || !filename || names.has(filename.toString())) {
+            schedule();
+          }
+        });
+        watcher.on("error", () => watcher.close());
+        watchers.push(watcher);
+      } catch {
+        // Missing directories are picked up on the next successful reload.
+      }
+    }
+  };
+
+  rewatch();
+  return {
+    close: () => {
+      closed = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      watchers.forEach((watcher) => watcher.close());
+      watchers = [];
+    }
+  };
+}
+
+// Map each watched directory to the file names of interest (null = any YAML fragment).
+function groupWatchTargets(watchPaths: string[]): Map<string, Set<string> | null> {
+  const targets = new Map<string, Set<string> | null>();
+  for (const entry of watchPaths) {
+    if (isDirectory(entry)) {
+      targets.set(entry, null);
+      continue;
+    }
+    const dir = path.dirname(entry);
+    const existing = targets.get(dir);
+    if (existing === null) {
+      continue;
+    }
+    const names = existing ?? new Set<string>();
+    names.add(path.basename(entry));
+    targets.set(dir, names);
+  }
+  return targets;
+}
+
+function isDirectory(entry: string): boolean {
+  try {
+    return fs.statSync(entry).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function recordReloadReceipt(
+  state: FirewallState,
+  trigger: PolicyReloadTrigger,
+  result: PolicyReloadResult,
+  candidateHash: string
+): void {
+  const timestamp = new Date().toISOString();
+  const receipt: Receipt = {
+    id: sha256Hex(`policy_reload:${timestamp}:${candidateHash}`).slice(0, 16),
+    timestamp,
+    reason: result.applied ? "Policy reloaded." : "Policy reload rejected; keeping last good policy.",
+    metadata: {
+      event: "policy_reload",
+      trigger,
+      applied: result.applied,
+      policyHash: result.policyHash,
+      candidateHash,
+      policySource: result.source,
+      errorCount: result.errors.length
+    }
+  };
+  appendReceipt(receipt, state.stateDir);
+}
@@ -0,0 +1,130 @@
+import {
+  hashObject,
+  matchParamCondition,
+  matchToolNamePattern,
+  type SequenceRule,
+  type SequenceStep
+} from "@mindaiproject/firewall-core";
+
+// A past call in the sliding window: tool name, hashed params, and the sequence
+// steps its params matched (params themselves are not kept).
+export type SequenceEntry = {
+  toolName: string;
+  paramsHash: string;
+  at: number;
+  steps: string[];
+};
+
+export type SequenceMatch = {
+  rule: SequenceRule;
+  /** Timestamps of the matched earlier steps, oldest first. */
+  matchedAt: number[];
+};
+
+export type SequenceCall = {
+  toolName: string;
+  params: Record<string, unknown>;
+  paramsHash: string;
+};
+
+export type SequenceTracker = {
+  evaluate: (
+    sessionKey: string,
+    call: Pick<SequenceCall, "toolName" | "params">,
+    rules: SequenceRule[],
+    now?: number
+  ) => SequenceMatch | null;
+  record: (sessionKey: string, call: SequenceCall, rules: SequenceRule[], now?: number) => void;
+  history: (sessionKey: string, now?: number) => SequenceEntry[];
+};
+
+type SequenceTrackerOptions = {
+  /** Calls kept per session. */
+  maxEntries?: number;
+  /** Oldest call kept, in milliseconds. */
+  windowMs?: number;
+};
+
+const DEFAULT_MAX_ENTRIES = 50;
+const DEFAULT_WINDOW_MS = 60 * 60 * 1000;
+
+// Create an in-memory tracker of recent calls per session for sequence rules.
+export function createSequenceTracker(options: SequenceTrackerOptions = {}): SequenceTracker {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+  const sessions = new Map<string, SequenceEntry[]>();
+
+  const history = (sessionKey: string, now = Date.now()): SequenceEntry[] => {
+    const entries = (sessions.get(sessionKey) ?? []).filter((entry) => now - entry.at < windowMs);
+    if (entries.length === 0) {
+      sessions.delete(sessionKey);
+    } else {
+      sessions.set(sessionKey, entries);
+    }
+    return entries;
+  };
+
+  const evaluate = (
+    sessionKey: string,
+    call: Pick<SequenceCall, "toolName" | "params">,
+    rules: SequenceRule[],
+    now = Date.now()
+  ): SequenceMatch | null => {
+    const entries = history(sessionKey, now);
+    for (const rule of rules) {
+      const last = rule.steps[rule.steps.length - 1];
+      if (!last || !matchSequenceStep(last, call)) {
+        continue;
+      }
+      const matchedAt = matchEarlierSteps(rule, entries, now);
+      if (matchedAt) {
+        return { rule, matchedAt };
+      }
+    }
+    return null;
+  };
+
+  const record = (sessionKey: string, call: SequenceCall, rules: SequenceRule[], now = Date.now()) => {
+    const steps = rules.flatMap((rule) =>
+      rule.steps.filter((step) => matchSequenceStep(step, call)).map((step) => stepKey(step))
+    );
+    const entries = [...history(sessionKey, now), { toolName: call.toolName, paramsHash: call.paramsHash, at: now, steps }];
+    sessions.set(sessionKey, entries.slice(-maxEntries));
+  };
+
+  return { evaluate, record, history };
+}
+
+// Whether a call matches one step (tool glob + all param conditions).
+export function matchSequenceStep(step: SequenceStep, call: Pick<SequenceCall, "toolName" | "params">): boolean {
+  if (!matchToolNamePattern(step.tool, call.toolName)) {
+    return false;
+  }
+  return (step.when ?? []).every((condition) => matchParamCondition(call.params, condition));
+}
+
+// Walk the history backwards, matching the steps before the last one in reverse order.
+// Other calls may appear between steps.
+function matchEarlierSteps(rule: SequenceRule, entries: SequenceEntry[], now: number): number[] | null {
+  const earliest = typeof rule.withinSec === "number" ? now - rule.withinSec * 1000 : -Infinity;
+  const matchedAt: number[] = [];
+  let cursor = entries.length - 1;
+  for (let stepIndex = rule.steps.length - 2; stepIndex >= 0; stepIndex -= 1) {
+    const key = stepKey(rule.steps[stepIndex] as SequenceStep);
+    while (cursor >= 0 && !(entries[cursor] as SequenceEntry).steps.includes(key)) {
+      cursor -= 1;
+    }
+    const entry = entries[cursor];
+    if (!entry || entry.at < earliest) {
+      return null;
+    }
+    matchedAt.unshift(entry.at);
+    cursor -= 1;
+  }
+  return matchedAt;
+}
+
+// Steps are keyed by content so recorded matches survive a policy reload.
+function stepKey(step: SequenceStep): string {
+  return hashObject(step).slice(0, 12);
+}
@@ -0,0 +1,331 @@
+// Minimal POSIX-shell parser for exec command policy.
+// It does not execute or expand anything; it only splits a command line into the
+// simple commands it would run (pipelines, lists, subshells, and substitutions)
+// and their redirections.
+
+export type ShellRedirect = {
+  /** Operator including any fd prefix, e.g. ">", ">>", "2>", "&>", "<". */
+  op: string;
+  target: string;
+};
+
+export type ShellCommand = {
+  /** Words of the simple command, without leading `NAME=value` assignments. */
+  argv: string[];
+  redirects: ShellRedirect[];
+};
+
+export type ParsedShellCommand = {
+  commands: ShellCommand[];
+  /** Set when quotes or substitutions are unbalanced; `commands` holds what was parsed. */
+  error?: string;
+};
+
+type Token = { kind: "word"; value: string } | { kind: "op"; value: string };
+
+// Longest operators first so "&&" wins over "&".
+const OPERATORS = [
+  "<<<", "&>>", "<<-",
+  "&&", "||", "|&", ">>", "<<", ">&", "<&", "&>", ">|", "<>",
+  "|", "&", ";", "<", ">", "(", ")", "\n"
+];
+const CONTROL_OPERATORS = new Set(["|", "||", "&&", ";", "&", "|&", "\n", "(", ")"]);
+// Redirections whose target is not a file (heredoc delimiters, here-strings).
+const NON_FILE_REDIRECTS = new Set(["<<", "<<-", "<<<"]);
+const LEADING_KEYWORDS = new Set(["if", "then", "else", "elif", "do", "while", "until", "!", "{", "}"]);
+const STANDALONE_KEYWORDS = new Set(["fi", "done", "esac", "}", "then", "else", "do"]);
+const HEADER_KEYWORDS = new Set(["for", "case", "select", "function"]);
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+// Parse a shell command line into simple commands, including the bodies of
+// `$(...)`, backticks, and `<(...)` process substitutions.
+export function parseShellCommand(input: string): ParsedShellCommand {
+  const nested: string[] = [];
+  const tokenized = tokenize(input, nested);
+  const commands = groupCommands(tokenized.tokens);
+  let error = tokenized.error;
+  for (const inner of nested) {
+    const parsed = parseShellCommand(inner);
+    commands.push(...parsed.commands);
+    error = error ?? parsed.error;
+  }
+  return error ? { commands, error } : { commands };
+}
+
+// True for redirections that read or write a file (not fd duplication or heredocs).
+export function isFileRedirect(redirect: ShellRedirect): boolean {
+  if (NON_FILE_REDIRECTS.has(redirect.op.replace(/^\d+/, ""))) {
+    return false;
+  }
+  if ((redirect.op.endsWith(">&") || redirect.op.endsWith("<&")) && /^(\d+|-)$/.test(redirect.target)) {
+    return false;
+  }
+  return redirect.target.length > 0;
+}
+
+function tokenize(input: string, nested: string[]): { tokens: Token[]; error?: string } {
+  const tokens: Token[] = [];
+  let word = "";
+  let inWord = false;
+  let quoted = false;
+  const flush = () => {
+    if (inWord) {
+      tokens.push({ kind: "word", value: word });
+    }
+    word = "";
+    inWord = false;
+    quoted = false;
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    const char = input[i] as string;
+    if (char === "\\") {
+      if (input[i + 1] === "\n") {
+        i += 2;
+        continue;
+      }
+      if (i + 1 < input.length) {
+        word += input[i + 1];
+        inWord = true;
+        quoted = true;
+      }
+      i += 2;
+      continue;
+    }
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end < 0) {
+        flush();
+        return { tokens, error: "Unterminated single quote." };
+      }
+      word += input.slice(i + 1, end);
+      inWord = true;
+      quoted = true;
+      i = end + 1;
+      continue;
+    }
+    if (char === '"') {
+      const read = readDoubleQuoted(input, i + 1, nested);
+      if (!read) {
+        flush();
+        return { tokens, error: "Unterminated double quote." };
+      }
+      word += read.value;
+      inWord = true;
+      quoted = true;
+      i = read.end + 1;
+      continue;
+    }
+    if (char === "`") {
+      const end = findClosingBacktick(input, i + 1);
+      if (end < 0) {
+        flush();
+        return { tokens, error: "Unterminated command substitution." };
+      }
+      nested.push(input.slice(i + 1, end));
+      word += input.slice(i, end + 1);
+      inWord = true;
+      i = end + 1;
+      continue;
+    }
+    if ((char === "$" || ((char === "<" || char === ">") && !inWord)) && input[i + 1] === "(") {
+      const arithmetic = char === "$" && input[i + 2] === "(";
+      const end = findClosingParen(input, i + 2);
+      if (end < 0) {
+        flush();
+        return { tokens, error: "Unterminated substitution." };
+      }
+      if (!arithmetic) {
+        nested.push(input.slice(i + 2, end));
+      }
+      word += input.slice(i, end + 1);
+      inWord = true;
+      i = end + 1;
+      continue;
+    }
+    if (char === "#" && !inWord) {
+      const end = input.indexOf("\n", i);
+      i = end < 0 ? input.length : end;
+      continue;
+    }
+    if (char !== "\n" && /\s/.test(char)) {
+      flush();
+      i += 1;
+      continue;
+    }
+    const op = OPERATORS.find((candidate) => input.startsWith(candidate, i));
+    if (op) {
+      const isRedirect = op.startsWith("<") || op.startsWith(">");
+      if (isRedirect && inWord && !quoted && /^\d+$/.test(word)) {
+        tokens.push({ kind: "op", value: `${word}${op}` });
+        word = "";
+        inWord = false;
+      } else {
+        flush();
+        tokens.push({ kind: "op", value: op });
+      }
+      i += op.length;
+      continue;
+    }
+    word += char;
+    inWord = true;
+    i += 1;
+  }
+  flush();
+  return { tokens };
+}
+
+function groupCommands(tokens: Token[]): ShellCommand[] {
+  const commands: ShellCommand[] = [];
+  let current: ShellCommand = { argv: [], redirects: [] };
+  const finish = () => {
+    const argv = stripKeywords(current.argv);
+    if (argv.length > 0 || current.redirects.length > 0) {
+      commands.push({ argv, redirects: current.redirects });
+    }
+    current = { argv: [], redirects: [] };
+  };
+
+  for (let i = 0; i < tokens.length; i += 1) {
+    const token = tokens[i] as Token;
+    if (token.kind === "word") {
+      if (current.argv.length === 0 && ASSIGNMENT_PATTERN.test(token.value)) {
+        continue;
+      }
+      current.argv.push(token.value);
+      continue;
+    }
+    if (CONTROL_OPERATORS.has(token.value)) {
+      finish();
+      continue;
+    }
+    const next = tokens[i + 1];
+    if (next?.kind === "word") {
+      current.redirects.push({ op: token.value, target: next.value });
+      i += 1;
+    }
+  }
+  finish();
+  return commands;
+}
+
+// Drop shell grammar words so argv[0] is the binary that actually runs.
+function stripKeywords(argv: string[]): string[] {
+  let start = 0;
+  while (start < argv.length && LEADING_KEYWORDS.has(argv[start] as string)) {
+    start += 1;
+  }
+  const rest = argv.slice(start);
+  const first = rest[0];
+  if (!first || HEADER_KEYWORDS.has(first) || (rest.length === 1 && STANDALONE_KEYWORDS.has(first))) {
+    return [];
+  }
+  return rest;
+}
+
+function readDoubleQuoted(
+  input: string,
+  start: number,
+  nested: string[]
+): { value: string; end: number } | null {
+  let value = "";
+  let i = start;
+  while (i < input.length) {
+    const char = input[i] as string;
+    if (char === "\\" && i + 1 < input.length && '$`"\\\n'.includes(input[i + 1] as string)) {
+      value += input[i + 1];
+      i += 2;
+      continue;
+    }
+    if (char === '"') {
+      return { value, end: i };
+    }
+    if (char === "$" && input[i + 1] === "(") {
+      const end = findClosingParen(input, i + 2);
+      if (end < 0) {
+        return null;
+      }
+      if (input[i + 2] !== "(") {
+        nested.push(input.slice(i + 2, end));
+      }
+      value += input.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+    if (char === "`") {
+      const end = findClosingBacktick(input, i + 1);
+      if (end < 0) {
+        return null;
+      }
+      nested.push(input.slice(i + 1, end));
+      value += input.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+    value += char;
+    i += 1;
+  }
+  return null;
+}
+
+// Index of the `)` closing a group that starts at `start`, skipping quoted text.
+function findClosingParen(input: string, start: number): number {
+  let depth = 1;
+  let i = start;
+  while (i < input.length) {
+    const char = input[i] as string;
+    if (char === "\\") {
+      i += 2;
+      continue;
+    }
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end < 0) {
+        return -1;
+      }
+      i = end + 1;
+      continue;
+    }
+    if (char === '"') {
+      const end = findClosingDoubleQuote(input, i + 1);
+      if (end < 0) {
+        return -1;
+      }
+      i = end + 1;
+      continue;
+    }
+    if (char === "(") {
+      depth += 1;
+    } else if (char === ")") {
+      depth -= 1;
+      if (depth === 0) {
+        return i;
+      }
+    }
+    i += 1;
+  }
+  return -1;
+}
+
+function findClosingDoubleQuote(input: string, start: number): number {
+  for (let i = start; i < input.length; i += 1) {
+    if (input[i] === "\\") {
+      i += 1;
+    } else if (input[i] === '"') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function findClosingBacktick(input: string, start: number): number {
+  for (let i = start; i < input.length; i += 1) {
+    if (input[i] === "\\") {
+      i += 1;
+    } else if (input[i] === "`") {
+      return i;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,331 @@
+import path from "node:path";
+import {
+  applyPolicyOverlays,
+  buildPolicyIndex,
+  evaluatePolicy,
+  normalizeToolName,
+  resolvePolicyOverlays,
+  sha256Hex,
+  type Decision,
+  type DecisionTraceStep,
+  type FirewallDecision,
+  type Policy,
+  type PathOperation,
+  type PathParamLocation,
+  type Receipt,
+  type WorkspaceScopes
+} from "@mindaiproject/firewall-core";
+import {
+  collectToolPaths,
+  evaluatePathAllowlist,
+  resolveGuardPath,
+  SENSITIVE_PATHS,
+  workspaceScopeAllows,
+  type PathDenyMatch,
+  type WorkspaceScope
+} from "./path-guard.js";
+import { evaluateCommandPolicy, readExecCommand } from "./command-guard.js";
+import { evaluateNetworkAllowlist } from "./network-guard.js";
+
+// Non-secret call shape stored in receipts so decisions can be replayed later.
+export type CallShape = {
+  /** One hash chain per path: the path itself first, then each ancestor up to the root. */
+  paths: string[][];
+  /** Operation on each path, in the same order (absent in older receipts). */
+  operations?: PathOperation[];
+};
+
+export type SimulationFlip = {
+  from: Decision;
+  to: Decision;
+  count: number;
+};
+
+export type SimulationGroup = {
+  toolName: string;
+  agentId?: string;
+  total: number;
+  flips: SimulationFlip[];
+};
+
+export type SimulationReport = {
+  replayed: number;
+  skipped: number;
+  /** Receipts replayed without params (no debug preview), so param rules could not match. */
+  withoutParams: number;
+  /** Receipts whose debug preview was truncated, also replayed without params. */
+  truncatedParams: number;
+  flipCount: number;
+  groups: SimulationGroup[];
+};
+
+// Stages excluded from replay: runtime state (session taint, call sequences, session
+// escalation, rate limits, in-flight calls, quotas, approvals) and DLP, whose input
+// (raw secrets) is never stored in receipts.
+const NON_POLICY_STAGES = new Set<DecisionTraceStep["stage"]>([
+  "dlp",
+  "taint",
+  "sequence",
+  "escalation",
+  "rate_limit",
+  "concurrency",
+  "quota",
+  "approval"
+]);
+
+// Build the call shape for a tool call (hashed paths only).
+export function buildCallShape(
+  toolName: string,
+  params: Record<string, unknown>,
+  resolvePath?: (input: string) => string,
+  pathParams?: PathParamLocation[]
+): CallShape {
+  const entries = collectToolPaths(toolName, params, resolvePath, pathParams ? { pathParams } : {});
+  return {
+    paths: entries.map((entry) => buildPathHashChain(entry.path)),
+    operations: entries.map((entry) => entry.operation)
+  };
+}
+
+// Replay recorded before_tool_call receipts against a candidate policy.
+export function simulatePolicy(receipts: Receipt[], policy: Policy): SimulationReport {
+  const toolIndex = buildPolicyIndex(policy);
+  const groups = new Map<string, { group: SimulationGroup; flips: Map<string, SimulationFlip> }>();
+  const report: SimulationReport = {
+    replayed: 0,
+    skipped: 0,
+    withoutParams: 0,
+    truncatedParams: 0,
+    flipCount: 0,
+    groups: []
+  };
+
+  for (const receipt of receipts) {
+    const original = readOriginalDecision(receipt);
+    if (!receipt.toolName || !original) {
+      report.skipped += 1;
+      continue;
+    }
+    const params = readParamsPreview(receipt);
+    if (receipt.metadata?.paramsTruncated === true) {
+      report.truncatedParams += 1;
+    } else if (!params) {
+      report.withoutParams += 1;
+    }
+    const context: { agentId?: string; sessionKey?: string } = {};
+    if (receipt.agentId) {
+      context.agentId = receipt.agentId;
+    }
+    if (receipt.sessionKey) {
+      context.sessionKey = receipt.sessionKey;
+    }
+    const toolName = normalizeToolName(receipt.toolName);
+    const evaluated = evaluatePolicy(policy, { toolName, params: params ?? {}, context }, toolIndex, {
+      now: () => new Date(receipt.timestamp)
+    });
+    const shape = readCallShape(receipt);
+    let candidate = replayDecision(
+      evaluated,
+      toolName,
+      shape,
+      params,
+      replayPathDenial(policy, evaluated, toolName, params, receipt)
+    );
+    const workspaces = applyPolicyOverlays(policy, resolvePolicyOverlays(policy, context)).workspaces;
+    if (shape && workspaces && candidate !== "DENY" && !withinWorkspaces(shape, workspaces, toolName)) {
+      candidate = escalate(candidate, workspaces.action ?? "ASK");
+    }
+    report.replayed += 1;
+
+    const key = `${toolName}\u0000${receipt.agentId ?? ""}`;
+    let entry = groups.get(key);
+    if (!entry) {
+      const group: SimulationGroup = { toolName, total: 0, flips: [] };
+      if (receipt.agentId) {
+        group.agentId = receipt.agentId;
+      }
+      entry = { group, flips: new Map() };
+      groups.set(key, entry);
+    }
+    entry.group.total += 1;
+    if (candidate !== original) {
+      const flipKey = `${original}->${candidate}`;
+      const flip = entry.flips.get(flipKey) ?? { from: original, to: candidate, count: 0 };
+      flip.count += 1;
+      entry.flips.set(flipKey, flip);
+      report.flipCount += 1;
+    }
+  }
+
+  report.groups = Array.from(groups.values())
+    .map(({ group, flips }) => ({ ...group, flips: Array.from(flips.values()) }))
+    .sort((a, b) => a.toolName.localeCompare(b.toolName) || (a.agentId ?? "").localeCompare(b.agentId ?? ""));
+  return report;
+}
+
+export function formatSimulationReport(report: SimulationReport): string {
+  const lines = [
+    `Replayed ${report.replayed} decision(s); skipped ${report.skipped} receipt(s) without a decision.`
+  ];
+  if (report.withoutParams > 0) {
+    lines.push(`${report.withoutParams} decision(s) had no params preview (log: safe); param rules, exec command policies, and network guards were evaluated without params.`);
+  }
+  if (report.truncatedParams > 0) {
+    lines.push(`${report.truncatedParams} decision(s) had a params preview truncated at 500 characters; param rules, exec command policies, and network guards were evaluated without params.`);
+  }
+  const changed = report.groups.filter((group) => group.flips.length > 0);
+  if (changed.length === 0) {
+    lines.push("No decision flips.");
+    return lines.join("\n");
+  }
+  lines.push(`Decision flips (${report.flipCount}):`);
+  for (const group of changed) {
+    const flips = group.flips.map((flip) => `${flip.from}->${flip.to} x${flip.count}`).join(", ");
+    lines.push(`- ${group.toolName} (agent: ${group.agentId ?? "n/a"}): ${flips} of ${group.total}`);
+  }
+  return lines.join("\n");
+}
+
+// Apply the command, path, and network guards and exec delegation the same way before_tool_call does.
+function replayDecision(
+  decision: FirewallDecision,
+  toolName: string,
+  shape: CallShape | null,
+  params: Record<string, unknown> | null,
+  pathDenied: boolean
+): Decision {
+  let result = decision.decision;
+  const commands = decision.toolRule?.commands;
+  const command = params ? readExecCommand(params) : null;
+  if (toolName === "exec" && commands && command !== null && result !== "DENY") {
+    result = evaluateCommandPolicy(command, commands, result).decision;
+  }
+  if (toolName === "exec" && decision.useExecApprovals && result === "ASK") {
+    result = "ALLOW";
+  }
+  const allowPaths = decision.toolRule?.allowPaths;
+  if (pathDenied) {
+    result = "DENY";
+  } else if (shape && allowPaths && allowPaths.length > 0) {
+    const allowed = new Set(allowPaths.map((entry) => hashPath(resolveGuardPath(entry) ?? path.resolve(entry))));
+    const inside = shape.paths.length > 0
+      ? shape.paths.every((chain) => chain.some((hash) => allowed.has(hash)))
+      : toolName === "exec";
+    if (!inside) {
+      result = escalate(result, decision.toolRule?.pathAction ?? "ASK");
+    }
+  }
+  if (params) {
+    const rule = decision.toolRule;
+    const network = rule
+      ? evaluateNetworkAllowlist({ toolName, params, rule })
+      : evaluateNetworkAllowlist({ toolName, params });
+    if (!network.allowed) {
+      result = escalate(result, rule?.networkAction ?? "ASK");
+    }
+  }
+  return result;
+}
+
+// Deny paths and sensitive paths. With a params preview the paths are checked
+// again; otherwise a recorded deny match still applies if its pattern (or the
+// sensitive path set) is still in effect. New glob patterns cannot be matched
+// against hashed paths.
+function replayPathDenial(
+  policy: Policy,
+  decision: FirewallDecision,
+  toolName: string,
+  params: Record<string, unknown> | null,
+  receipt: Receipt
+): boolean {
+  const sensitive = policy.defaults.sensitivePaths !== false;
+  const denyPaths = decision.toolRule?.denyPaths ?? [];
+  if (params) {
+    return evaluatePathAllowlist({
+      toolName,
+      params,
+      ...(decision.toolRule?.pathParams ? { pathParams: decision.toolRule.pathParams } : {}),
+      denyPaths,
+      sensitivePaths: sensitive ? SENSITIVE_PATHS : []
+    }).denied.length > 0;
+  }
+  const pathGuard = receipt.metadata?.pathGuard as { denied?: Array<Omit<PathDenyMatch, "path">> } | undefined;
+  return (pathGuard?.denied ?? []).some((match) =>
+    match.source === "sensitive" ? sensitive : denyPaths.includes(match.pattern)
+  );
+}
+
+// Each path chain falls under the deepest root found in it. Receipts from before
+// operations were recorded count `read` calls as reads and everything else as writes.
+function withinWorkspaces(shape: CallShape, workspaces: WorkspaceScopes, toolName: string): boolean {
+  const scopes = new Map<string, WorkspaceScope>();
+  for (const scope of ["readWrite", "noDelete", "readOnly"] as const) {
+    for (const root of workspaces[scope] ?? []) {
+      scopes.set(hashPath(resolveGuardPath(root) ?? path.resolve(root)), scope);
+    }
+  }
+  return shape.paths.every((chain, index) => {
+    const scope = chain.map((hash) => scopes.get(hash)).find((entry) => entry !== undefined);
+    const operation = shape.operations?.[index] ?? (toolName === "read" ? "read" : "write");
+    return scope !== undefined && workspaceScopeAllows(scope, operation);
+  });
+}
+
+// The decision the policy produced, before approvals or rate limits changed it.
+function readOriginalDecision(receipt: Receipt): Decision | undefined {
+  const trace = receipt.metadata?.trace;
+  if (Array.isArray(trace)) {
+    const steps = (trace as DecisionTraceStep[]).filter(
+      (step) => step && typeof step.outcome === "string" && !NON_POLICY_STAGES.has(step.stage)
+    );
+    const last = steps[steps.length - 1];
+    if (last) {
+      return last.outcome;
+    }
+  }
+  return receipt.decision;
+}
+
+function readParamsPreview(receipt: Receipt): Record<string, unknown> | null {
+  const preview = receipt.metadata?.paramsPreview;
+  if (typeof preview !== "string" || receipt.metadata?.paramsTruncated === true) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(preview) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+function readCallShape(receipt: Receipt): CallShape | null {
+  const shape = receipt.metadata?.callShape as CallShape | undefined;
+  if (!shape || !Array.isArray(shape.paths)) {
+    return null;
+  }
+  return shape;
+}
+
+function buildPathHashChain(resolved: string): string[] {
+  const chain: string[] = [];
+  let current = resolved;
+  for (;;) {
+    chain.push(hashPath(current));
+    const parent = path.dirname(current);
+    if (parent === current) {
+      break;
+    }
+    current = parent;
+  }
+  return chain;
+}
+
+function hashPath(value: string): string {
+  return sha256Hex(value).slice(0, 12);
+}
+
+function escalate(current: Decision, next: Decision): Decision {
+  const rank = (decision: Decision) => (decision === "DENY" ? 2 : decision === "ASK" ? 1 : 0);
+  return rank(next) > rank(current) ? next : current;
+}
@@ -1,7 +1,9 @@
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
+import { randomUUID } from "node:crypto";
 import type { Receipt } from "@mindaiproject/firewall-core";
+import type { RateLimitBucket } from "./rate-limit.js";
 
 export type ApprovalScope = "once" | "session";
 export type ApprovalStatus = "pending" | "approved" | "denied";
@@ -42,6 +44,26 @@ const APPROVAL_HISTORY_FILE = "approvals.history.jsonl";
 const APPROVAL_ROLLUP_FILE = "approvals.rollup.json";
 const RECEIPTS_FILE = "receipts.jsonl";
 const LAST_DECISION_FILE = "last-decision.json";
+const QUOTAS_FILE = "quotas.json";
+const RATE_LIMITS_FILE = "rate-limits.json";
+
+// A lock file older than this is assumed to belong to a crashed process.
+const LOCK_STALE_MS = 2000;
+const LOCK_RETRY_MS = 5;
+// Give up waiting for a lock after this long.
+const LOCK_TIMEOUT_MS = 10_000;
+
+// Call counts per quota bucket ("<ruleId>:<scopeKey>") for the current period.
+export type QuotaStore = {
+  version: number;
+  buckets: Record<string, { periodStart: string; count: number }>;
+};
+
+// Rate limit buckets ("<ruleId>:<scopeKey>") shared by every process using the state dir.
+export type RateLimitStoreFile = {
+  version: number;
+  buckets: Record<string, RateLimitBucket>;
+};
 
 export type ApprovalHistoryEvent = {
   ts: string;
@@ -185,12 +207,174 @@ export function rebuildApprovalRollupFromHistory(
   return rollup;
 }
 
+// A state file that exists but cannot be parsed. Callers must not treat it as
+// empty: overwriting it would silently reset the counts it holds.
+export class StateFileCorruptError extends Error {
+  readonly filePath: string;
+
+  constructor(filePath: string, cause: unknown) {
+    super(`State file ${filePath} is unreadable: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = "StateFileCorruptError";
+    this.filePath = filePath;
+  }
+}
+
+export function loadQuotaStore(stateDir = DEFAULT_STATE_DIR): QuotaStore {
+  const filePath = path.join(stateDir, QUOTAS_FILE);
+  if (!fs.existsSync(filePath)) {
+    return { version: 1, buckets: {} };
+  }
+  const parsed = readBucketFile<QuotaStore>(filePath);
+  return { version: parsed.version ?? 1, buckets: parsed.buckets ?? {} };
+}
+
+// Write through a temp file so a crash mid-write never leaves a truncated store.
+export function saveQuotaStore(store: QuotaStore, stateDir = DEFAULT_STATE_DIR): void {
+  ensureDir(stateDir);
+  const filePath = path.join(stateDir, QUOTAS_FILE);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(store, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
+
+export function loadRateLimitStore(stateDir = DEFAULT_STATE_DIR): RateLimitStoreFile {
+  const filePath = path.join(stateDir, RATE_LIMITS_FILE);
+  if (!fs.existsSync(filePath)) {
+    return { version: 1, buckets: {} };
+  }
+  const parsed = readBucketFile<RateLimitStoreFile>(filePath);
+  return { version: parsed.version ?? 1, buckets: parsed.buckets ?? {} };
+}
+
+// Parse a `{ version, buckets }` state file, throwing StateFileCorruptError when it
+// cannot be read so callers never mistake it for an empty store.
+function readBucketFile<T extends { version?: number; buckets?: object }>(filePath: string): Partial<T> {
+  let parsed: Partial<T>;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, "utf8")) as Partial<T>;
+  } catch (err) {
+    throw new StateFileCorruptError(filePath, err);
+  }
+  if (!parsed || typeof parsed !== "object" || (parsed.buckets !== undefined && typeof parsed.buckets !== "object")) {
+    throw new StateFileCorruptError(filePath, "expected an object with a buckets map");
+  }
+  return parsed;
+}
+
+// Write through a temp file and rename, so readers never see a partial file.
+export function saveRateLimitStore(store: RateLimitStoreFile, stateDir = DEFAULT_STATE_DIR): void {
+  ensureDir(stateDir);
+  const filePath = path.join(stateDir, RATE_LIMITS_FILE);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(store));
+  fs.renameSync(tempPath, filePath);
+}
+
+// Run `fn` while holding an advisory lock file (`<name>.lock`) in the state dir.
+// The lock file holds an owner token. Waiting polls without blocking the event loop
+// and fails after LOCK_TIMEOUT_MS; locks left by crashed processes are taken over.
+export async function withStateLock<T>(name: string, fn: () => T | Promise<T>, stateDir = DEFAULT_STATE_DIR): Promise<T> {
+  ensureDir(stateDir);
+  const lockPath = path.join(stateDir, `${name}.lock`);
+  const token = `${process.pid}:${randomUUID()}`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  while (!tryAcquireLock(lockPath, token)) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for state lock ${lockPath}.`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+  try {
+    return await fn();
+  } finally {
+    if (readLockToken(lockPath) === token) {
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+}
+
+function tryAcquireLock(lockPath: string, token: string): boolean {
+  try {
+    fs.writeFileSync(lockPath, token, { flag: "wx" });
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EEXIST") {
+      throw err;
+    }
+  }
+  const staleToken = readStaleLockToken(lockPath);
+  if (staleToken !== null) {
+    breakStaleLock(lockPath, staleToken, token);
+  }
+  return false;
+}
+
+// Take a stale lock out of the way atomically: move it to a name only this caller
+// uses, then check it is the lock that was seen as stale. If another process
+// replaced it in between, its fresh lock is linked back (never overwriting).
+function breakStaleLock(lockPath: string, staleToken: string, token: string): void {
+  const claimedPath = `${lockPath}.${token.replace(/[^A-Za-z0-9-]/g, "_")}.stale`;
+  try {
+    fs.renameSync(lockPath, claimedPath);
+  } catch (err) {
+    return;
+  }
+  if (readLockToken(claimedPath) !== staleToken) {
+    try {
+      fs.linkSync(claimedPath, lockPath);
+    } catch (err) {
+      // Someone holds a new lock already; the displaced holder keeps running unlocked.
+    }
+  }
+  fs.rmSync(claimedPath, { force: true });
+}
+
+// The token of a lock older than LOCK_STALE_MS, or null when it is fresh or gone.
+function readStaleLockToken(lockPath: string): string | null {
+  try {
+    if (Date.now() - fs.statSync(lockPath).mtimeMs <= LOCK_STALE_MS) {
+      return null;
+    }
+    return fs.readFileSync(lockPath, "utf8");
+  } catch (err) {
+    return null;
+  }
+}
+
+function readLockToken(lockPath: string): string | null {
+  try {
+    return fs.readFileSync(lockPath, "utf8");
+  } catch (err) {
+    return null;
+  }
+}
+
 export function appendReceipt(receipt: Receipt, stateDir = DEFAULT_STATE_DIR): void {
   ensureDir(stateDir);
   const filePath = path.join(stateDir, RECEIPTS_FILE);
   fs.appendFileSync(filePath, `${JSON.stringify(receipt)}\n`);
 }
 
+// Read receipts.jsonl, skipping malformed lines.
+export function readReceipts(stateDir = DEFAULT_STATE_DIR, filePath = path.join(stateDir, RECEIPTS_FILE)): Receipt[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  const receipts: Receipt[] = [];
+  const lines = fs.readFileSync(filePath, "utf8").split("\n").filter(Boolean);
+  for (const line of lines) {
+    try {
+      const parsed = JSON.parse(line) as Receipt;
+      if (parsed && typeof parsed === "object") {
+        receipts.push(parsed);
+      }
+    } catch (err) {
+      continue;
+    }
+  }
+  return receipts;
+}
+
 export function writeLastDecision(record: Receipt, stateDir = DEFAULT_STATE_DIR): void {
   ensureDir(stateDir);
   const filePath = path.join(stateDir, LAST_DECISION_FILE);
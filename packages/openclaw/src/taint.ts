@@ -0,0 +1,79 @@
+export type TaintMark = {
+  /** Redaction match hashes (12-char sha256 prefixes) found in the tool result. */
+  hashes: string[];
+  /** Detector types and injection finding IDs, e.g. ["openai_key", "ignore_instructions"]. */
+  types: string[];
+  /** Tool whose result tainted the session. */
+  source: string;
+};
+
+export type TaintRecord = {
+  hashes: string[];
+  types: string[];
+  sources: string[];
+  firstAt: number;
+  expiresAt: number;
+};
+
+export type TaintLedger = {
+  mark: (sessionKey: string, mark: TaintMark, ttlMs: number, now?: number) => TaintRecord;
+  get: (sessionKey: string, now?: number) => TaintRecord | null;
+  clear: (sessionKey: string) => boolean;
+  list: (now?: number) => Array<{ sessionKey: string; record: TaintRecord }>;
+};
+
+// Taint lasts an hour after the latest finding unless defaults.taint.ttlSec says otherwise.
+export const DEFAULT_TAINT_TTL_SEC = 3600;
+
+// Cap per session so a chatty tool cannot grow the ledger without bound.
+const MAX_HASHES = 256;
+
+// Create an in-memory ledger of sessions tainted by secrets or injection findings.
+// Each new finding extends the session's expiry.
+export function createTaintLedger(): TaintLedger {
+  const records = new Map<string, TaintRecord>();
+
+  const get = (sessionKey: string, now = Date.now()): TaintRecord | null => {
+    const record = records.get(sessionKey);
+    if (!record) {
+      return null;
+    }
+    if (record.expiresAt <= now) {
+      records.delete(sessionKey);
+      return null;
+    }
+    return record;
+  };
+
+  const mark = (sessionKey: string, input: TaintMark, ttlMs: number, now = Date.now()): TaintRecord => {
+    const existing = get(sessionKey, now);
+    const record: TaintRecord = {
+      hashes: mergeUnique(existing?.hashes ?? [], input.hashes).slice(-MAX_HASHES),
+      types: mergeUnique(existing?.types ?? [], input.types),
+      sources: mergeUnique(existing?.sources ?? [], [input.source]),
+      firstAt: existing?.firstAt ?? now,
+      expiresAt: Math.max(existing?.expiresAt ?? 0, now + ttlMs)
+    };
+    records.set(sessionKey, record);
+    return record;
+  };
+
+  const clear = (sessionKey: string): boolean => records.delete(sessionKey);
+
+  const list = (now = Date.now()) => {
+    const entries: Array<{ sessionKey: string; record: TaintRecord }> = [];
+    for (const sessionKey of Array.from(records.keys())) {
+      const record = get(sessionKey, now);
+      if (record) {
+        entries.push({ sessionKey, record });
+      }
+    }
+    return entries;
+  };
+
+  return { mark, get, clear, list };
+}
+
+function mergeUnique(base: string[], next: string[]): string[] {
+  return Array.from(new Set([...base, ...next]));
+}
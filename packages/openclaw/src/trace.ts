@@ -0,0 +1,38 @@
+import type { DecisionTraceStep } from "@mindaiproject/firewall-core";
+
+// Render a stored decision trace (Receipt.metadata.trace) as explain lines.
+export function formatDecisionTrace(trace: unknown): string[] {
+  const steps = readTraceSteps(trace);
+  if (steps.length === 0) {
+    return [];
+  }
+  const lines = ["Trace:"];
+  steps.forEach((step, index) => {
+    const input = formatTraceInput(step.input);
+    lines.push(`  ${index + 1}. ${step.stage} -> ${step.outcome}: ${step.reason}${input ? ` [${input}]` : ""}`);
+  });
+  return lines;
+}
+
+function readTraceSteps(trace: unknown): DecisionTraceStep[] {
+  if (!Array.isArray(trace)) {
+    return [];
+  }
+  return trace.filter(
+    (entry): entry is DecisionTraceStep =>
+      Boolean(entry) &&
+      typeof entry === "object" &&
+      typeof (entry as DecisionTraceStep).stage === "string" &&
+      typeof (entry as DecisionTraceStep).outcome === "string" &&
+      typeof (entry as DecisionTraceStep).reason === "string"
+  );
+}
+
+function formatTraceInput(input: unknown): string {
+  if (!input || typeof input !== "object") {
+    return "";
+  }
+  return Object.entries(input as Record<string, unknown>)
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(",") : String(value)}`)
+    .join(" ");
+}
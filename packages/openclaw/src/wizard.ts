@@ -30,7 +30,7 @@ import {
   writeOpenClawConfig,
   writePolicyFile
 } from "./setup.js";
-import type { RateLimitRule } from "./rate-limit.js";
+import type { RateLimitAlgorithm, RateLimitCost, RateLimitRule, RateLimitScope } from "./rate-limit.js";
 import type { PluginLogger } from "./openclaw-types.js";
 
 type WizardPrefill = {
@@ -151,11 +151,18 @@ const RATE_LIMIT_ACTION_CHOICES: Choice<Decision>[] = [
   { value: "DENY", label: "Deny", detail: "Block when limit is exceeded." }
 ];
 
-const RATE_LIMIT_SCOPE_CHOICES: Choice<"session" | "global">[] = [
+const RATE_LIMIT_SCOPE_CHOICES: Choice<RateLimitScope>[] = [
   { value: "session", label: "Session", detail: "Limit per session (recommended)." },
+  { value: "agent", label: "Agent", detail: "Limit per agent, across its sessions." },
   { value: "global", label: "Global", detail: "Limit across all sessions." }
 ];
 
+const RATE_LIMIT_ALGORITHM_CHOICES: Choice<RateLimitAlgorithm>[] = [
+  { value: "sliding-window", label: "Sliding window", detail: "Count calls in the last N seconds (default)." },
+  { value: "token-bucket", label: "Token bucket", detail: "Allow bursts up to a capacity, refilled steadily." },
+  { value: "fixed-window", label: "Fixed window", detail: "Reset the count at each window boundary." }
+];
+
 export async function runFirewallSetupWizard(options: WizardRunOptions = {}): Promise<WizardRunResult> {
   const logger = options.logger ?? console;
   const prompt = options.prompt ?? createPrompt();
@@ -605,12 +612,43 @@ async function configureRateLimits(
       RATE_LIMIT_SCOPE_CHOICES,
       "session"
     );
-    rules.push({ toolName, maxCalls, windowSec, action, scope });
+    const rule: RateLimitRule = { toolName, maxCalls, windowSec, action, scope };
+    const algorithm = await prompt.choose("Rate limit algorithm", RATE_LIMIT_ALGORITHM_CHOICES, "sliding-window");
+    if (algorithm !== "sliding-window") {
+      rule.algorithm = algorithm;
+    }
+    if (algorithm === "token-bucket") {
+      rule.burst = await prompt.number("Burst capacity (calls allowed at once)", maxCalls);
+    }
+    const costs = await configureRateLimitCosts(prompt);
+    if (costs.length > 0) {
+      rule.costs = costs;
+    }
+    rules.push(rule);
     addMore = await prompt.confirm("Add another rate limit?", false);
   }
   return { rateLimits: rules, provided: true };
 }
 
+// Weighted costs: each entry names a tool (and optionally a param regex) and its cost.
+async function configureRateLimitCosts(prompt: Prompt): Promise<RateLimitCost[]> {
+  const costs: RateLimitCost[] = [];
+  let addCost = await prompt.confirm("Add weighted costs (e.g. browser costs 5)?", false);
+  while (addCost) {
+    const toolName = normalizeToolName(await prompt.ask("Tool drawing from this budget", "browser"));
+    const cost = await prompt.number("Cost per call", 1);
+    const entry: RateLimitCost = { toolName, cost };
+    const field = (await prompt.ask("Only when param field (blank for any call)", "")).trim();
+    if (field) {
+      const matches = await prompt.ask(`Regex the ${field} param must match`, ".*");
+      entry.when = [{ field, matches }];
+    }
+    costs.push(entry);
+    addCost = await prompt.confirm("Add another weighted cost?", false);
+  }
+  return costs;
+}
+
 async function selectTools(prompt: Prompt, tools: string[]): Promise<string[]> {
   if (tools.length === 0) {
     return [];
@@ -842,7 +880,7 @@ function coerceRateLimits(value: unknown): RateLimitRule[] {
     }
     const actionRaw = typeof record.action === "string" ? record.action.trim().toUpperCase() : "";
     const action = actionRaw === "ASK" || actionRaw === "DENY" ? actionRaw : undefined;
-    const scope = record.scope === "global" || record.scope === "session" ? record.scope : undefined;
+    const scope = record.scope === "global" || record.scope === "session" || record.scope === "agent" ? record.scope : undefined;
     const next: RateLimitRule = { toolName, maxCalls, windowSec };
     if (action) {
       next.action = action;
@@ -850,6 +888,15 @@ function coerceRateLimits(value: unknown): RateLimitRule[] {
     if (scope) {
       next.scope = scope;
     }
+    if (record.algorithm === "sliding-window" || record.algorithm === "token-bucket" || record.algorithm === "fixed-window") {
+      next.algorithm = record.algorithm;
+    }
+    if (typeof record.burst === "number" && record.burst > 0) {
+      next.burst = record.burst;
+    }
+    if (Array.isArray(record.costs) && record.costs.length > 0) {
+      next.costs = record.costs as RateLimitCost[];
+    }
     rules.push(next);
   }
   return rules;
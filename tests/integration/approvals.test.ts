@@ -118,6 +118,16 @@ describe("approval lifecycle", () => {
 
     const debugLast = readLastDecision(debugDir);
     expect((debugLast?.metadata as Record<string, unknown> | undefined)?.paramsPreview).toBeTypeOf("string");
+    expect((debugLast?.metadata as Record<string, unknown> | undefined)?.paramsTruncated).toBeUndefined();
+
+    await handleBeforeToolCall(
+      debugState,
+      { toolName: "write", params: { path: "/tmp/file.txt", content: "x".repeat(600) } },
+      { toolName: "write", sessionKey: "session-3" }
+    );
+
+    const longLast = readLastDecision(debugDir);
+    expect((longLast?.metadata as Record<string, unknown> | undefined)?.paramsTruncated).toBe(true);
   });
 
   it("redacts previews even when redaction is off", async () => {
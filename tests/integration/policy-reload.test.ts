@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { buildPolicyIndex } from "../../packages/core/src/index.js";
+import {
+  handleBeforeToolCall,
+  handleFirewallCommand,
+  loadPolicyConfig,
+  readReceipts,
+  reloadPolicy,
+  watchPolicyFiles,
+  type FirewallState
+} from "../../packages/openclaw/src/index.js";
+
+function createTempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "firewall-reload-"));
+}
+
+function writePolicy(policyPath: string, action: string): void {
+  fs.writeFileSync(policyPath, ["tools:", "  - name: web_fetch", `    action: ${action}`].join("\n"));
+}
+
+function createState(dir: string, policyPath: string): FirewallState {
+  const loaded = loadPolicyConfig({ policyPath, preset: "standard" });
+  return {
+    policy: loaded.policy,
+    policySource: loaded.source,
+    warnings: loaded.warnings,
+    toolIndex: buildPolicyIndex(loaded.policy),
+    policyLoad: { policyPath, preset: "standard" },
+    watchPaths: loaded.watchPaths,
+    stateDir: dir,
+    logger: undefined,
+    resolvePath: (input) => path.resolve(input),
+    maxResultAction: "truncate"
+  };
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 3000): Promise<void> {
+  const started = Date.now();
+  while (!check()) {
+    if (Date.now() - started > timeoutMs) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+}
+
+describe("policy hot reload", () => {
+  it("swaps in a valid policy and records a receipt with its hash", async () => {
+    const dir = createTempDir();
+    const policyPath = path.join(dir, "firewall.yaml");
+    writePolicy(policyPath, "ALLOW");
+    const state = createState(dir, policyPath);
+
+    writePolicy(policyPath, "DENY");
+    const result = reloadPolicy(state, "command");
+
+    expect(result.applied).toBe(true);
+    expect(result.changed).toBe(true);
+    expect(state.policyHash).toBe(result.policyHash);
+    const decision = await handleBeforeToolCall(
+      state,
+      { toolName: "web_fetch", params: { url: "https://example.com" } },
+      { toolName: "web_fetch" }
+    );
+    expect(decision?.block).toBe(true);
+
+    const receipt = readReceipts(dir).find((entry) => entry.metadata?.event === "policy_reload");
+    expect(receipt?.metadata?.policyHash).toBe(result.policyHash);
+    expect(receipt?.metadata?.applied).toBe(true);
+  });
+
+  it("keeps the last good policy when the new one is invalid", () => {
+    const dir = createTempDir();
+    const policyPath = path.join(dir, "firewall.yaml");
+    writePolicy(policyPath, "ALLOW");
+    const state = createState(dir, policyPath);
+    reloadPolicy(state, "command");
+    const goodHash = state.policyHash;
+    const goodPolicy = state.policy;
+
+    writePolicy(policyPath, "ALOW");
+    const reply = handleFirewallCommand(state, {
+      channel: "test",
+      isAuthorizedSender: true,
+      args: "reload",
+      commandBody: "/firewall reload",
+      config: {}
+    });
+
+    expect(reply.text).toContain(`keeping policy ${goodHash}`);
+    expect(reply.text).toContain("tools[0].action");
+    expect(state.policy).toBe(goodPolicy);
+    const receipts = readReceipts(dir).filter((entry) => entry.metadata?.event === "policy_reload");
+    expect(receipts[receipts.length - 1]?.metadata?.applied).toBe(false);
+  });
+
+  it("keeps the last good policy when the policy file is missing", () => {
+    const dir = createTempDir();
+    const policyPath = path.join(dir, "firewall.yaml");
+    writePolicy(policyPath, "DENY");
+    const state = createState(dir, policyPath);
+    const goodPolicy = state.policy;
+
+    fs.rmSync(policyPath);
+    const result = reloadPolicy(state, "watch");
+
+    expect(result.applied).toBe(false);
+    expect(result.errors).toEqual([`Policy file not found at ${policyPath}.`]);
+    expect(state.policy).toBe(goodPolicy);
+    expect(state.toolIndex.get("web_fetch")?.action).toBe("DENY");
+  });
+
+  it("reloads when an included fragment changes", async () => {
+    const dir = createTempDir();
+    const policyPath = path.join(dir, "firewall.yaml");
+    fs.mkdirSync(path.join(dir, "firewall.d"));
+    fs.writeFileSync(policyPath, "include: ./firewall.d\n");
+    const state = createState(dir, policyPath);
+    const initialHash = reloadPolicy(state, "command").policyHash;
+    const watcher = watchPolicyFiles(state);
+
+    try {
+      writePolicy(path.join(dir, "firewall.d", "10-fetch.yaml"), "DENY");
+      await waitFor(() => state.policyHash !== initialHash);
+      expect(state.toolIndex.get("web_fetch")?.action).toBe("DENY");
+    } finally {
+      watcher.close();
+    }
+  });
+
+  it("logs reload failures from the watcher instead of throwing", async () => {
+    const dir = createTempDir();
+    const policyPath = path.join(dir, "firewall.yaml");
+    writePolicy(policyPath, "ALLOW");
+    const state = createState(dir, policyPath);
+    const errors: string[] = [];
+    state.logger = { info: () => {}, warn: () => {}, error: (message: string) => errors.push(message) };
+    // A state dir below a regular file cannot be created, so writing the reload receipt throws.
+    state.stateDir = path.join(policyPath, "state");
+    const watcher = watchPolicyFiles(state);
+
+    try {
+      writePolicy(policyPath, "DENY");
+      await waitFor(() => errors.length > 0);
+      expect(errors[0]).toMatch(/^\[firewall\] Policy reload failed: /);
+    } finally {
+      watcher.close();
+    }
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { createConcurrencyTracker, normalizeConcurrencyRules } from "../../packages/openclaw/src/concurrency.js";
+
+describe("concurrency tracker", () => {
+  it("counts in-flight calls per scope and releases them by call ID", () => {
+    const tracker = createConcurrencyTracker(
+      normalizeConcurrencyRules([
+        { toolName: "process", maxInFlight: 2, scope: "session" },
+        { toolName: "process", maxInFlight: 0 }
+      ])
+    );
+    const now = 1_000;
+    tracker.acquire("process", { sessionKey: "s1", toolCallId: "p1" }, now);
+    tracker.acquire("process", { sessionKey: "s1", toolCallId: "p2" }, now);
+
+    const hit = tracker.evaluate("process", { sessionKey: "s1" }, now);
+    expect(hit).toMatchObject({ scopeKey: "session:s1", inFlight: 2 });
+    expect(hit?.rule.action).toBe("DENY");
+    expect(tracker.evaluate("process", { sessionKey: "s2" }, now)).toBeNull();
+    expect(tracker.evaluate("browser", { sessionKey: "s1" }, now)).toBeNull();
+
+    expect(tracker.release("process", { sessionKey: "s1", toolCallId: "p2" })).toBe(true);
+    expect(tracker.release("process", { sessionKey: "s1", toolCallId: "p2" })).toBe(false);
+    expect(tracker.evaluate("process", { sessionKey: "s1" }, now)).toBeNull();
+  });
+
+  it("expires calls whose result never arrives and falls back to FIFO release", () => {
+    const tracker = createConcurrencyTracker(
+      normalizeConcurrencyRules([{ toolName: "browser*", maxInFlight: 1, action: "ask", timeoutSec: 30 }])
+    );
+    tracker.acquire("browser", { agentId: "main", sessionKey: "s1" }, 0);
+
+    expect(tracker.evaluate("browser", { agentId: "main" }, 10_000)?.rule.action).toBe("ASK");
+    expect(tracker.status(10_000)).toMatchObject([{ scopeKey: "agent:main", inFlight: 1 }]);
+    expect(tracker.evaluate("browser", { agentId: "main" }, 30_000)).toBeNull();
+
+    tracker.acquire("browser", { agentId: "main", sessionKey: "s1" }, 40_000);
+    expect(tracker.release("browser", { sessionKey: "s1" })).toBe(true);
+    expect(tracker.status(40_000)).toEqual([]);
+  });
+});
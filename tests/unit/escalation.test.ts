@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import type { EscalationSettings } from "../../packages/core/src/index.js";
+import { createSuspicionTracker } from "../../packages/openclaw/src/escalation.js";
+
+const settings: EscalationSettings = {
+  levels: [
+    { score: 3, action: "ASK", risks: ["write"] },
+    { score: 6, action: "DENY" }
+  ],
+  cooldownSec: 60,
+  windowSec: 30,
+  weights: { ask: 0.5 }
+};
+
+describe("suspicion tracker", () => {
+  it("weights signals and escalates to the highest level reached", () => {
+    const tracker = createSuspicionTracker();
+    tracker.record("s1", ["deny", "ask"], settings, 0);
+    const first = tracker.record("s1", ["path_guard"], settings, 1_000);
+    expect(first).toMatchObject({ score: 3.5, signals: { deny: 1, ask: 1, path_guard: 1 } });
+    expect(first.escalation).toMatchObject({ level: { score: 3, action: "ASK" }, since: 1_000, until: 61_000 });
+
+    const second = tracker.record("s1", ["injection"], settings, 2_000);
+    expect(second.escalation).toMatchObject({ level: { action: "DENY" }, since: 1_000, until: 62_000 });
+    expect(tracker.get("s2", 2_000)).toBeNull();
+  });
+
+  it("drops old signals, ends escalations after the cooldown, and resets", () => {
+    const tracker = createSuspicionTracker();
+    tracker.record("s1", ["injection"], settings, 0);
+    expect(tracker.get("s1", 10_000)?.escalation?.level.action).toBe("ASK");
+    expect(tracker.get("s1", 40_000)).toMatchObject({ score: 0 });
+    expect(tracker.get("s1", 60_000)).toBeNull();
+
+    tracker.record("s2", ["deny"], settings, 0);
+    expect(tracker.list(0).map((entry) => entry.sessionKey)).toEqual(["s2"]);
+    expect(tracker.reset("s2")).toBe(true);
+    expect(tracker.reset("s2")).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateNetworkAllowlist,
+  extractToolUrls,
+  isPrivateHost
+} from "../../packages/openclaw/src/network-guard.js";
+
+describe("network guard", () => {
+  it("allows public URLs when no domain lists are configured", () => {
+    const result = evaluateNetworkAllowlist({ toolName: "web_fetch", params: { url: "https://example.com/page" } });
+
+    expect(result.allowed).toBe(true);
+    expect(result.hosts).toEqual(["example.com"]);
+  });
+
+  it("enforces allowDomains with wildcard subdomains", () => {
+    const rule = { allowDomains: ["docs.python.org", "*.github.com"] };
+
+    expect(evaluateNetworkAllowlist({ toolName: "web_fetch", params: { url: "https://api.github.com/x" }, rule }).allowed).toBe(true);
+    expect(evaluateNetworkAllowlist({ toolName: "web_fetch", params: { url: "https://docs.python.org/3/" }, rule }).allowed).toBe(true);
+    const blocked = evaluateNetworkAllowlist({ toolName: "web_fetch", params: { url: "https://github.com.evil.test/" }, rule });
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.reason).toBe("Domain is not on the allow list.");
+  });
+
+  it("checks denyDomains before allowDomains", () => {
+    const result = evaluateNetworkAllowlist({
+      toolName: "browser",
+      params: { action: "navigate", targetUrl: "https://paste.example.com/new" },
+      rule: { allowDomains: ["*.example.com"], denyDomains: ["paste.example.com"] }
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toBe("Domain is on the deny list.");
+  });
+
+  it("blocks loopback, private, and link-local hosts", () => {
+    for (const url of [
+      "http://localhost:8080/",
+      "http://127.0.0.1/",
+      "http://2130706433/",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://10.0.0.5/",
+      "http://[::1]/",
+      "http://[::ffff:127.0.0.1]/"
+    ]) {
+      expect(evaluateNetworkAllowlist({ toolName: "web_fetch", params: { url } }).allowed, url).toBe(false);
+    }
+    expect(
+      evaluateNetworkAllowlist({
+        toolName: "web_fetch",
+        params: { url: "http://localhost:3000/" },
+        rule: { blockPrivateNetworks: false }
+      }).allowed
+    ).toBe(true);
+    expect(isPrivateHost("8.8.8.8")).toBe(false);
+  });
+
+  it("enforces the scheme allowlist", () => {
+    const result = evaluateNetworkAllowlist({ toolName: "browser", params: { url: "file:///etc/passwd" } });
+
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toBe("Scheme file: is not allowed.");
+  });
+
+  it("extracts URLs embedded in web_search queries and nested params", () => {
+    expect(
+      extractToolUrls({ query: "summarize https://evil.test/?q=1", options: { links: ["http://a.test"] } })
+    ).toEqual(["https://evil.test/?q=1", "http://a.test"]);
+    expect(evaluateNetworkAllowlist({ toolName: "web_search", params: { query: "weather today" } }).hosts).toEqual([]);
+  });
+});
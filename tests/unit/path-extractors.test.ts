@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import path from "node:path";
+import { readParamValues } from "../../packages/core/src/index.js";
+import { extractToolPathOperations } from "../../packages/openclaw/src/path-extractors.js";
+import { evaluatePathAllowlist } from "../../packages/openclaw/src/path-guard.js";
+
+describe("path extractors", () => {
+  it("reads exec and process paths relative to the working directory", () => {
+    expect(extractToolPathOperations("exec", { command: "cat ./notes.md > ~/out.txt", workdir: "/srv/app" })).toEqual([
+      { path: "/srv/app", operation: "read" },
+      { path: path.join("/srv/app", "notes.md"), operation: "read" },
+      { path: "~/out.txt", operation: "write" }
+    ]);
+    expect(extractToolPathOperations("process", { command: "rm -rf build/", cwd: "/srv/app" })).toEqual([
+      { path: "/srv/app", operation: "read" },
+      { path: path.join("/srv/app", "build/"), operation: "delete" }
+    ]);
+    expect(extractToolPathOperations("process", { action: "poll", sessionId: "abc" })).toEqual([]);
+  });
+
+  it("reads browser file URLs, uploads, and downloads, and local image inputs", () => {
+    expect(extractToolPathOperations("browser", { action: "navigate", targetUrl: "file:///etc/passwd" })).toEqual([
+      { path: "/etc/passwd", operation: "read" }
+    ]);
+    expect(extractToolPathOperations("browser", { action: "navigate", targetUrl: "https://example.com" })).toEqual([]);
+    expect(extractToolPathOperations("browser", { action: "upload", paths: ["/tmp/a.pdf"], path: "/tmp/b.pdf" })).toEqual([
+      { path: "/tmp/a.pdf", operation: "read" },
+      { path: "/tmp/b.pdf", operation: "read" }
+    ]);
+    expect(extractToolPathOperations("browser", { action: "pdf", outputPath: "/tmp/page.pdf" })).toEqual([
+      { path: "/tmp/page.pdf", operation: "write" }
+    ]);
+    expect(extractToolPathOperations("image", { image: "~/Pictures/cat.png", images: ["https://example.com/a.png", "data:image/png;base64,AAAA"] }))
+      .toEqual([{ path: "~/Pictures/cat.png", operation: "read" }]);
+  });
+
+  it("reads policy-declared param locations for custom tools", () => {
+    const params = {
+      target: "/srv/out.txt",
+      files: [{ path: "/srv/a.txt" }, { path: "/srv/b.txt" }],
+      options: { source: { file: "file:///srv/c.txt" } }
+    };
+
+    expect(readParamValues(params, "$.files[*].path")).toEqual(["/srv/a.txt", "/srv/b.txt"]);
+    expect(readParamValues(params, "files[1].path")).toEqual(["/srv/b.txt"]);
+    expect(
+      extractToolPathOperations("mcp_fs_copy", params, {
+        pathParams: [{ field: "$.files[*].path", operation: "read" }, { field: "options.*.file", operation: "read" }, { field: "target" }]
+      })
+    ).toEqual([
+      { path: "/srv/a.txt", operation: "read" },
+      { path: "/srv/b.txt", operation: "read" },
+      { path: "/srv/c.txt", operation: "read" },
+      { path: "/srv/out.txt", operation: "write" }
+    ]);
+
+    const inside = evaluatePathAllowlist({
+      toolName: "mcp_fs_copy",
+      params,
+      allowPaths: [path.resolve("/srv")],
+      pathParams: [{ field: "target" }]
+    });
+    const missing = evaluatePathAllowlist({
+      toolName: "mcp_fs_copy",
+      params: {},
+      allowPaths: [path.resolve("/srv")],
+      pathParams: [{ field: "target" }]
+    });
+    expect(inside.allowed).toBe(true);
+    expect(missing.reason).toBe("No path argument found for path allowlist enforcement.");
+  });
+});
@@ -1,6 +1,12 @@
 import { describe, expect, it } from "vitest";
+import fs from "node:fs";
 import path from "node:path";
-import { evaluatePathAllowlist } from "../../packages/openclaw/src/path-guard.js";
+import os from "node:os";
+import {
+  evaluatePathAllowlist,
+  matchPathPattern,
+  SENSITIVE_PATHS
+} from "../../packages/openclaw/src/path-guard.js";
 
 describe("path allowlist guard", () => {
   it("allows read paths inside the allowlist", () => {
@@ -58,4 +64,132 @@ describe("path allowlist guard", () => {
     expect(result.allowed).toBe(true);
     expect(result.toolPaths.length).toBe(1);
   });
+
+  it("lets deny patterns take precedence over the allowlist", () => {
+    const evaluate = (filePath: string) =>
+      evaluatePathAllowlist({
+        toolName: "write",
+        params: { path: filePath },
+        allowPaths: ["/srv/app"],
+        denyPaths: [".env", ".git/config", "**/*.{pem,key}"],
+        resolvePath: (input) => path.resolve(input)
+      });
+
+    expect(evaluate("/srv/app/src/index.ts").allowed).toBe(true);
+    expect(evaluate("/srv/app/.env").denied).toEqual([{ path: "/srv/app/.env", pattern: ".env", source: "denyPaths" }]);
+    expect(evaluate("/srv/app/.git/config").reason).toBe("Path matches deny pattern .git/config.");
+    expect(evaluate("/srv/app/certs/tls/server.key").allowed).toBe(false);
+    expect(evaluate("/srv/app/.envrc").allowed).toBe(true);
+  });
+
+  it("matches globs, anchored patterns, and directories", () => {
+    expect(matchPathPattern("/etc/*.conf", "/etc/nginx.conf")).toBe(true);
+    expect(matchPathPattern("/etc/*.conf", "/etc/nginx/site.conf")).toBe(false);
+    expect(matchPathPattern("/etc/**/*.conf", "/etc/nginx/site.conf")).toBe(true);
+    expect(matchPathPattern("/var/log", "/var/log/syslog")).toBe(true);
+    expect(matchPathPattern("/var/log", "/var/logs")).toBe(false);
+    expect(matchPathPattern("id_?sa", "/home/me/.ssh/id_rsa")).toBe(true);
+    expect(matchPathPattern("~/.aws", path.join(os.homedir(), ".aws", "credentials"))).toBe(true);
+  });
+
+  it("denies sensitive paths without an allowlist but keeps agent workspaces reachable", () => {
+    const evaluate = (toolName: string, params: Record<string, unknown>) =>
+      evaluatePathAllowlist({ toolName, params, sensitivePaths: SENSITIVE_PATHS });
+    const home = os.homedir();
+
+    expect(evaluate("read", { path: path.join(home, ".ssh", "id_ed25519") }).denied[0]).toMatchObject({
+      pattern: "~/.ssh",
+      source: "sensitive"
+    });
+    expect(evaluate("exec", { command: "cat ~/.openclaw/openclaw.json" }).allowed).toBe(false);
+    expect(evaluate("write", { path: path.join(home, ".openclaw", "workspace", "notes.md") }).allowed).toBe(true);
+    expect(evaluate("write", { path: path.join(home, ".openclaw", "workspace-coder", "a.ts") }).allowed).toBe(true);
+    expect(evaluate("read", { path: "/tmp/notes.md" }).allowed).toBe(true);
+  });
+
+  it("follows symlinks, including dangling ones, out of the allowlist", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "firewall-paths-"));
+    const workspace = path.join(root, "workspace");
+    const outside = path.join(root, "outside");
+    fs.mkdirSync(workspace);
+    fs.mkdirSync(outside);
+    fs.writeFileSync(path.join(outside, "bashrc"), "");
+    fs.symlinkSync(path.join(outside, "bashrc"), path.join(workspace, "link"));
+    fs.symlinkSync(path.join(outside, "new.txt"), path.join(workspace, "dangling"));
+    fs.symlinkSync(outside, path.join(workspace, "dir"));
+    const evaluate = (target: string) =>
+      evaluatePathAllowlist({ toolName: "write", params: { path: target }, allowPaths: [workspace] });
+
+    const viaLink = evaluate(path.join(workspace, "link"));
+    expect(viaLink).toMatchObject({ allowed: false, violation: "symlink_escape" });
+    expect(viaLink.unmatched).toEqual([fs.realpathSync(path.join(outside, "bashrc"))]);
+    expect(evaluate(path.join(workspace, "dangling")).violation).toBe("symlink_escape");
+    expect(evaluate(path.join(workspace, "dir", "sub", "new.txt")).violation).toBe("symlink_escape");
+    expect(evaluate(path.join(workspace, "sub", "new.txt")).allowed).toBe(true);
+  });
+
+  it("applies deny patterns to the symlink target", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "firewall-paths-"));
+    fs.mkdirSync(path.join(root, "secrets"));
+    fs.symlinkSync(path.join(root, "secrets"), path.join(root, "public"));
+    const result = evaluatePathAllowlist({
+      toolName: "read",
+      params: { path: path.join(root, "public", "key.pem") },
+      denyPaths: [path.join(fs.realpathSync(root), "secrets")]
+    });
+
+    expect(result).toMatchObject({ allowed: false, violation: "deny_pattern" });
+  });
+
+  it("reports '..' escapes and NUL bytes as their own violations", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "firewall-paths-"));
+    const workspace = path.join(root, "workspace");
+    fs.mkdirSync(workspace);
+    const evaluate = (target: string) =>
+      evaluatePathAllowlist({ toolName: "read", params: { path: target }, allowPaths: [workspace] });
+
+    expect(evaluate(`${workspace}/../outside.txt`)).toMatchObject({
+      allowed: false,
+      violation: "traversal_escape"
+    });
+    expect(evaluate(`${workspace}/sub/../notes.md`).allowed).toBe(true);
+    expect(evaluate(`${workspace}/notes.md\0.txt`)).toMatchObject({ allowed: false, violation: "nul_byte" });
+    expect(evaluate(path.join(root, "other.txt")).violation).toBe("outside_allowlist");
+  });
+
+  it("enforces workspace scopes per operation", () => {
+    const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "firewall-paths-")));
+    const docs = path.join(root, "docs");
+    const project = path.join(root, "project");
+    const data = path.join(project, "data");
+    fs.mkdirSync(data, { recursive: true });
+    fs.mkdirSync(docs);
+    const evaluate = (toolName: string, params: Record<string, unknown>) =>
+      evaluatePathAllowlist({
+        toolName,
+        params,
+        workspaces: { readOnly: [docs], readWrite: [project], noDelete: [data] }
+      });
+    const patch = (...lines: string[]) => ({ input: ["*** Begin Patch", ...lines, "*** End Patch"].join("\n") });
+
+    expect(evaluate("read", { path: path.join(docs, "guide.md") }).allowed).toBe(true);
+    expect(evaluate("write", { path: path.join(docs, "guide.md") })).toMatchObject({
+      allowed: false,
+      violation: "read_only",
+      blockedBy: "workspaces"
+    });
+    expect(evaluate("write", { path: path.join(data, "rows.csv") }).allowed).toBe(true);
+    expect(evaluate("apply_patch", patch(`*** Delete File: ${path.join(project, "old.ts")}`)).allowed).toBe(true);
+    expect(evaluate("apply_patch", patch(`*** Delete File: ${path.join(data, "rows.csv")}`)).violation).toBe("no_delete");
+    // Moving a file out of data/ deletes the source even though the destination is writable.
+    const move = evaluate(
+      "apply_patch",
+      patch(`*** Update File: ${path.join(data, "rows.csv")}`, `*** Move to: ${path.join(project, "rows.csv")}`)
+    );
+    expect(move).toMatchObject({ violation: "no_delete", unmatched: [path.join(data, "rows.csv")] });
+    expect(evaluate("exec", { command: `rm ${path.join(data, "rows.csv")}` }).violation).toBe("no_delete");
+    expect(evaluate("exec", { command: `cat ${path.join(docs, "guide.md")} > ${path.join(docs, "copy.md")}` }).violation)
+      .toBe("read_only");
+    expect(evaluate("read", { path: path.join(root, "other.txt") }).violation).toBe("outside_workspace");
+  });
 });
@@ -0,0 +1,352 @@
+import { describe, expect, it } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { loadPolicyConfig, PolicyValidationError } from "../../packages/openclaw/src/config.js";
+
+function createTempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "firewall-config-"));
+}
+
+function writeFile(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+describe("policy composition", () => {
+  it("resolves extends chains and include fragments in order", () => {
+    const dir = createTempDir();
+    writeFile(
+      path.join(dir, "org", "baseline.yaml"),
+      ["extends: preset:strict", "tools:", "  - name: web_fetch", "    action: ASK"].join("\n")
+    );
+    writeFile(
+      path.join(dir, "firewall.yaml"),
+      [
+        "extends:",
+        "  - ./org/baseline.yaml",
+        "include: ./firewall.d",
+        "tools:",
+        "  - name: read",
+        "    action: ALLOW"
+      ].join("\n")
+    );
+    writeFile(path.join(dir, "firewall.d", "20-fetch.yaml"), ["tools:", "  - name: web_fetch", "    action: DENY"].join("\n"));
+    writeFile(path.join(dir, "firewall.d", "10-write.yaml"), ["tools:", "  - name: write", "    action: ALLOW"].join("\n"));
+
+    const policyPath = path.join(dir, "firewall.yaml");
+    const loaded = loadPolicyConfig({ policyPath, preset: "standard" });
+
+    expect(loaded.chain).toEqual([
+      "preset:standard",
+      "preset:strict",
+      path.join(dir, "org", "baseline.yaml"),
+      policyPath,
+      path.join(dir, "firewall.d", "10-write.yaml"),
+      path.join(dir, "firewall.d", "20-fetch.yaml")
+    ]);
+    expect(loaded.source).toBe(loaded.chain.join(" -> "));
+    expect(loaded.policy.mode).toBe("strict");
+    const tool = (name: string) => loaded.policy.tools.find((rule) => rule.name === name);
+    expect(tool("web_fetch")?.action).toBe("DENY");
+    expect(tool("write")?.action).toBe("ALLOW");
+    expect(tool("read")?.action).toBe("ALLOW");
+  });
+
+  it("detects extends cycles", () => {
+    const dir = createTempDir();
+    writeFile(path.join(dir, "a.yaml"), ["extends: ./b.yaml", "mode: a"].join("\n"));
+    writeFile(path.join(dir, "b.yaml"), ["extends: ./a.yaml", "mode: b"].join("\n"));
+
+    const loaded = loadPolicyConfig({ policyPath: path.join(dir, "a.yaml") });
+
+    expect(loaded.errors.some((error) => error.includes("cycle"))).toBe(true);
+    expect(loaded.chain).toEqual(["preset:standard", path.join(dir, "b.yaml"), path.join(dir, "a.yaml")]);
+    expect(loaded.policy.mode).toBe("a");
+  });
+
+  it("merges sequence rules by id and skips incomplete ones", () => {
+    const dir = createTempDir();
+    writeFile(
+      path.join(dir, "base.yaml"),
+      [
+        "sequences:",
+        "  - id: ssh-exfil",
+        "    steps: [read, web_fetch]",
+        "    action: ASK",
+        "  - id: memory-message",
+        "    steps: [memory_get, message]",
+        "    action: ASK"
+      ].join("\n")
+    );
+    writeFile(
+      path.join(dir, "firewall.yaml"),
+      [
+        "extends: ./base.yaml",
+        "sequences:",
+        "  - id: ssh-exfil",
+        "    steps:",
+        "      - tool: Read",
+        "        when:",
+        "          field: path",
+        "          matches: \"\\\\.ssh/\"",
+        "      - web_fetch",
+        "    withinSec: 300",
+        "    action: DENY",
+        "  - id: lonely",
+        "    steps: [exec]",
+        "    action: DENY"
+      ].join("\n")
+    );
+
+    const loaded = loadPolicyConfig({ policyPath: path.join(dir, "firewall.yaml") });
+
+    expect(loaded.errors).toEqual([]);
+    expect(loaded.policy.sequences).toEqual([
+      {
+        id: "ssh-exfil",
+        steps: [{ tool: "read", when: [{ field: "path", matches: "\\.ssh/" }] }, { tool: "web_fetch" }],
+        withinSec: 300,
+        action: "DENY"
+      },
+      { id: "memory-message", steps: [{ tool: "memory_get" }, { tool: "message" }], action: "ASK" }
+    ]);
+    expect(loaded.warnings).toContain("sequences[2] (lonely) needs at least two steps; skipping.");
+  });
+});
+
+describe("policy schedules", () => {
+  it("keeps valid schedule entries and warns about invalid ones", () => {
+    const dir = createTempDir();
+    const policyPath = path.join(dir, "firewall.yaml");
+    writeFile(
+      policyPath,
+      [
+        "riskSchedule:",
+        "  critical:",
+        "    - { days: mon-fri, hours: \"09:00-18:00\", timezone: Europe/Berlin, action: ASK }",
+        "tools:",
+        "  - name: message",
+        "    action: ASK",
+        "    schedule:",
+        "      - { days: mon-fri, hours: \"09:00-18:00\", timezone: Europe/Berlin, action: ALLOW }",
+        "      - { hours: \"25:00-26:00\", action: ALLOW }",
+        "      - { timezone: Mars/Olympus, action: ALLOW }"
+      ].join("\n")
+    );
+
+    const loaded = loadPolicyConfig({ policyPath });
+
+    expect(loaded.errors).toEqual([]);
+    expect(loaded.policy.riskSchedule?.critical).toEqual([
+      { days: "mon-fri", hours: "09:00-18:00", timezone: "Europe/Berlin", action: "ASK" }
+    ]);
+    expect(loaded.policy.tools.find((rule) => rule.name === "message")?.schedule).toHaveLength(1);
+    expect(loaded.warnings).toEqual(
+      expect.arrayContaining([
+        "Tool message: schedule[1] has invalid hours (expected HH:MM-HH:MM); skipping.",
+        "Tool message: schedule[2] has an unknown timezone; skipping."
+      ])
+    );
+  });
+
+  it("normalizes escalation levels and fills in defaults", () => {
+    const dir = createTempDir();
+    const policyPath = path.join(dir, "firewall.yaml");
+    writeFile(
+      policyPath,
+      [
+        "defaults:",
+        "  escalation:",
+        "    levels:",
+        "      - { score: 10, action: deny }",
+        "      - { score: 4, action: ASK, risks: [write] }",
+        "    weights: { injection: 5 }"
+      ].join("\n")
+    );
+
+    const loaded = loadPolicyConfig({ policyPath });
+
+    expect(loaded.errors).toEqual([]);
+    expect(loaded.policy.defaults.escalation).toEqual({
+      levels: [
+        { score: 4, action: "ASK", risks: ["write"] },
+        { score: 10, action: "DENY" }
+      ],
+      cooldownSec: 900,
+      windowSec: 600,
+      weights: { injection: 5 }
+    });
+  });
+});
+
+describe("workspaces", () => {
+  it("merges workspace roots across extends and validates overlays", () => {
+    const dir = createTempDir();
+    const basePath = path.join(dir, "base.yaml");
+    const policyPath = path.join(dir, "firewall.yaml");
+    writeFile(basePath, ["workspaces:", "  readOnly: [/srv/docs]", "  readWrite: [/srv/app]"].join("\n"));
+    writeFile(
+      policyPath,
+      [
+        "extends: ./base.yaml",
+        "workspaces:",
+        "  readWrite: [/srv/app/src]",
+        "  action: deny",
+        "agents:",
+        "  reviewer:",
+        "    workspaces:",
+        "      noDelete: /srv/app"
+      ].join("\n")
+    );
+
+    const loaded = loadPolicyConfig({ policyPath });
+
+    expect(loaded.policy.workspaces).toEqual({ readOnly: ["/srv/docs"], readWrite: ["/srv/app/src"], action: "DENY" });
+    expect(loaded.policy.agents?.reviewer?.workspaces).toBeUndefined();
+    expect(loaded.warnings).toContain("agents.reviewer.workspaces.noDelete must be a list of paths; ignoring.");
+  });
+});
+
+describe("path params", () => {
+  it("accepts location strings and objects and skips invalid operations", () => {
+    const dir = createTempDir();
+    const policyPath = path.join(dir, "firewall.yaml");
+    writeFile(
+      policyPath,
+      [
+        "tools:",
+        "  - name: mcp_fs_copy",
+        "    pathParams:",
+        "      - $.target",
+        "      - { field: \"files[*].path\", operation: read }",
+        "      - { field: source, operation: move }"
+      ].join("\n")
+    );
+
+    const loaded = loadPolicyConfig({ policyPath });
+
+    expect(loaded.policy.tools.find((tool) => tool.name === "mcp_fs_copy")?.pathParams).toEqual([
+      { field: "$.target" },
+      { field: "files[*].path", operation: "read" }
+    ]);
+    expect(loaded.warnings).toContain("Tool mcp_fs_copy: pathParams[2] has an invalid operation; skipping.");
+  });
+});
+
+describe("param rules", () => {
+  it("skips rules with a condition that has no operator", () => {
+    const dir = createTempDir();
+    const policyPath = path.join(dir, "firewall.yaml");
+    writeFile(
+      policyPath,
+      [
+        "tools:",
+        "  - name: write",
+        "    paramRules:",
+        "      - { when: [{ field: path }], action: ALLOW }",
+        "      - { when: [{ field: path, prefix: /tmp/ }], action: ALLOW }"
+      ].join("\n")
+    );
+
+    const loaded = loadPolicyConfig({ policyPath });
+
+    expect(loaded.policy.tools.find((tool) => tool.name === "write")?.paramRules).toEqual([
+      { when: [{ field: "path", prefix: "/tmp/" }], action: "ALLOW" }
+    ]);
+    expect(loaded.warnings).toContain("Tool write: paramRules[0] has a condition on path without an operator; skipping rule.");
+    expect(loaded.errors).toEqual([]);
+  });
+});
+
+describe("redaction detectors", () => {
+  it("merges custom detectors by id and skips invalid ones", () => {
+    const dir = createTempDir();
+    const basePath = path.join(dir, "base.yaml");
+    const policyPath = path.join(dir, "firewall.yaml");
+    writeFile(
+      basePath,
+      [
+        "redaction:",
+        "  detectors:",
+        "    - { id: acme_key, pattern: \"acme_test_[a-z0-9]+\" }",
+        "  disable: [email]"
+      ].join("\n")
+    );
+    writeFile(
+      policyPath,
+      [
+        "extends: ./base.yaml",
+        "redaction:",
+        "  detectors:",
+        "    - { id: acme_key, pattern: \"acme_live_[a-z0-9]+\", replacement: label }",
+        "    - { id: broken, pattern: \"(\" }",
+        "    - { id: everywhere, pattern: \"(x)?\" }",
+        "  disable: [ip, no_such_detector]"
+      ].join("\n")
+    );
+
+    const loaded = loadPolicyConfig({ policyPath });
+
+    expect(loaded.policy.redaction).toEqual({
+      detectors: [{ id: "acme_key", pattern: "acme_live_[a-z0-9]+", replacement: "label" }],
+      disable: ["email", "ip"]
+    });
+    expect(loaded.warnings).toContain("redaction.detectors[1] (broken) has an invalid pattern; skipping.");
+    expect(loaded.warnings).toContain(
+      "redaction.detectors[2] (everywhere) has a pattern that matches the empty string; skipping."
+    );
+    expect(loaded.warnings).toContain("redaction.disable: unknown detector no_such_detector; ignoring.");
+  });
+});
+
+describe("policy schema validation", () => {
+  it("reports typos and unknown keys with file, line, and column", () => {
+    const dir = createTempDir();
+    const policyPath = path.join(dir, "firewall.yaml");
+    writeFile(
+      policyPath,
+      ["tools:", "  - name: read", "    action: ALOW", "  - name: write", "    allowPath: [/tmp]"].join("\n")
+    );
+
+    const loaded = loadPolicyConfig({ policyPath, preset: "standard" });
+
+    expect(loaded.errors).toEqual([
+      `${policyPath}:3:13: tools[0].action: invalid value "ALOW"; expected ALLOW, DENY, or ASK`,
+      `${policyPath}:5:5: tools[1].allowPath: unknown key "allowPath"`
+    ]);
+  });
+
+  it("reports YAML syntax errors and keeps preset defaults", () => {
+    const dir = createTempDir();
+    const policyPath = path.join(dir, "firewall.yaml");
+    writeFile(policyPath, ["tools:", "  - name: read", "   action: [ALLOW"].join("\n"));
+
+    const loaded = loadPolicyConfig({ policyPath, preset: "standard" });
+
+    expect(loaded.errors.length).toBeGreaterThan(0);
+    expect(loaded.errors[0]?.startsWith(`${policyPath}:`)).toBe(true);
+    expect(loaded.errors[0]).toContain("YAML parse error");
+    expect(loaded.source).toBe("preset:standard");
+  });
+
+  it("accepts the shipped preset files", () => {
+    for (const preset of ["strict", "standard", "dev"]) {
+      const policyPath = path.join(process.cwd(), "packages", "openclaw", "presets", `${preset}.yaml`);
+      expect(loadPolicyConfig({ policyPath, preset: "standard" }).errors).toEqual([]);
+    }
+  });
+
+  it("throws in strict mode instead of falling back", () => {
+    const dir = createTempDir();
+    const policyPath = path.join(dir, "firewall.yaml");
+    writeFile(policyPath, ["defaults:", "  unknownToolAction: maybe"].join("\n"));
+
+    expect(() => loadPolicyConfig({ policyPath, strict: true })).toThrow(PolicyValidationError);
+    try {
+      loadPolicyConfig({ policyPath, strict: true });
+    } catch (err) {
+      expect((err as PolicyValidationError).errors[0]).toContain(`${policyPath}:2:22: defaults.unknownToolAction`);
+    }
+  });
+});
@@ -70,4 +70,232 @@ describe("policy evaluation", () => {
     expect(decision.decision).toBe("ASK");
     expect(decision.reason).toContain("ASK");
   });
+
+  it("applies the first matching param rule in order", () => {
+    const paramPolicy: Policy = {
+      ...policy,
+      tools: [
+        {
+          name: "exec",
+          risk: "critical",
+          action: "ASK",
+          paramRules: [
+            { when: [{ field: "command", prefix: "git status" }], action: "ALLOW" },
+            { when: [{ field: "command", matches: "\\brm\\b" }], action: "ASK" },
+            { when: [{ field: "command", present: true }], action: "DENY" }
+          ]
+        }
+      ]
+    };
+    const evaluate = (command: string) =>
+      evaluatePolicy(paramPolicy, { toolName: "exec", params: { command }, context: {} });
+
+    const status = evaluate("git status --short");
+    expect(status.decision).toBe("ALLOW");
+    expect(status.paramRuleIndex).toBe(0);
+    expect(status.reason).toContain("param rule #1");
+
+    expect(evaluate("rm -rf build").decision).toBe("ASK");
+    expect(evaluate("ls").decision).toBe("DENY");
+  });
+
+  it("falls back to the tool action when no param rule matches", () => {
+    const paramPolicy: Policy = {
+      ...policy,
+      tools: [
+        {
+          name: "web_fetch",
+          risk: "read",
+          action: "ASK",
+          paramRules: [
+            { when: [{ field: "url", prefix: "https://docs.example.com/" }], action: "ALLOW" },
+            { when: [{ field: "options.maxBytes", min: 1, max: 1000 }], action: "ALLOW" }
+          ]
+        }
+      ]
+    };
+
+    const other = evaluatePolicy(paramPolicy, {
+      toolName: "web_fetch",
+      params: { url: "https://evil.example.com/", options: { maxBytes: 50000 } },
+      context: {}
+    });
+    expect(other.decision).toBe("ASK");
+    expect(other.paramRuleIndex).toBeUndefined();
+
+    const small = evaluatePolicy(paramPolicy, {
+      toolName: "web_fetch",
+      params: { url: "https://evil.example.com/", options: { maxBytes: 500 } },
+      context: {}
+    });
+    expect(small.decision).toBe("ALLOW");
+    expect(small.paramRuleIndex).toBe(1);
+  });
+
+  it("matches glob tool names with exact and longest-pattern precedence", () => {
+    const globPolicy: Policy = {
+      ...policy,
+      tools: [
+        { name: "mcp_*", risk: "read", action: "ASK" },
+        { name: "mcp_github_*", risk: "write", action: "ALLOW" },
+        { name: "mcp_github_delete_repo", risk: "critical", action: "DENY" }
+      ]
+    };
+    const evaluate = (toolName: string) => evaluatePolicy(globPolicy, { toolName, params: {}, context: {} });
+
+    const exact = evaluate("mcp_github_delete_repo");
+    expect(exact.decision).toBe("DENY");
+    expect(exact.matchedPattern).toBeUndefined();
+
+    const longer = evaluate("MCP_GitHub_create_issue");
+    expect(longer.decision).toBe("ALLOW");
+    expect(longer.matchedPattern).toBe("mcp_github_*");
+    expect(longer.reason).toContain("mcp_github_*");
+
+    const shorter = evaluate("mcp_slack_post");
+    expect(shorter.decision).toBe("ASK");
+    expect(shorter.matchedPattern).toBe("mcp_*");
+
+    expect(evaluate("browser_open").decision).toBe("DENY");
+  });
+
+  it("applies agent overlays by exact ID or glob", () => {
+    const overlayPolicy: Policy = {
+      ...policy,
+      tools: [...policy.tools, { name: "web_fetch", risk: "read" }],
+      agents: {
+        researcher: {
+          tools: [
+            { name: "write", action: "DENY" },
+            { name: "web_fetch", action: "ALLOW" }
+          ]
+        },
+        "coder*": {
+          risk: { write: "ALLOW" },
+          tools: [{ name: "web_fetch", action: "DENY" }]
+        }
+      }
+    };
+    const evaluate = (toolName: string, agentId?: string) =>
+      evaluatePolicy(overlayPolicy, { toolName, params: {}, context: agentId ? { agentId } : {} });
+
+    expect(evaluate("write", "researcher").decision).toBe("DENY");
+    expect(evaluate("web_fetch", "researcher").decision).toBe("ALLOW");
+    expect(evaluate("write", "coder-1").decision).toBe("ALLOW");
+    expect(evaluate("web_fetch", "coder-1").decision).toBe("DENY");
+    expect(evaluate("web_fetch", "coder-1").overlays).toEqual(["agent:coder*"]);
+    expect(evaluate("write").decision).toBe("ASK");
+    expect(evaluate("write").overlays).toBeUndefined();
+  });
+
+  it("drops base param rules and schedules when an overlay sets the action", () => {
+    const overlayPolicy: Policy = {
+      ...policy,
+      tools: [
+        {
+          name: "write",
+          risk: "write",
+          paramRules: [{ when: [{ field: "path", prefix: "/tmp/" }], action: "ALLOW" }],
+          schedule: [{ days: "*", action: "ALLOW" }]
+        }
+      ],
+      agents: {
+        researcher: { tools: [{ name: "write", action: "DENY" }] },
+        coder: { tools: [{ name: "write", risk: "read" }] }
+      }
+    };
+    const evaluate = (agentId: string) =>
+      evaluatePolicy(overlayPolicy, { toolName: "write", params: { path: "/tmp/notes.md" }, context: { agentId } });
+
+    expect(evaluate("researcher").decision).toBe("DENY");
+    expect(evaluate("coder").decision).toBe("ALLOW");
+    expect(evaluate("coder").paramRuleIndex).toBe(0);
+  });
+
+  it("records the evaluation stages in the decision trace", () => {
+    const tracePolicy: Policy = {
+      ...policy,
+      tools: [
+        { name: "write", risk: "write" },
+        {
+          name: "exec",
+          risk: "critical",
+          action: "ASK",
+          paramRules: [{ when: [{ field: "command", equals: "ls" }], action: "ALLOW" }]
+        }
+      ]
+    };
+    const evaluate = (toolName: string, params: Record<string, unknown> = {}) =>
+      evaluatePolicy(tracePolicy, { toolName, params, context: {} });
+
+    expect(evaluate("write").trace.map((step) => step.stage)).toEqual(["risk_default"]);
+    expect(evaluate("mystery").trace.map((step) => step.stage)).toEqual(["unknown_tool"]);
+
+    const exec = evaluate("exec", { command: "ls" });
+    expect(exec.trace.map((step) => [step.stage, step.outcome])).toEqual([
+      ["base_rule", "ASK"],
+      ["param_rule", "ALLOW"]
+    ]);
+  });
+
+  it("applies schedule windows with an injectable clock", () => {
+    const businessHours = { days: "mon-fri", hours: "09:00-18:00", timezone: "Europe/Berlin" };
+    const schedulePolicy: Policy = {
+      ...policy,
+      riskSchedule: { critical: [{ ...businessHours, action: "ASK" }] },
+      tools: [
+        { name: "message", risk: "write", action: "ASK", schedule: [{ ...businessHours, action: "ALLOW" }] },
+        { name: "cron", risk: "critical" },
+        {
+          name: "sessions_spawn",
+          risk: "write",
+          action: "ASK",
+          schedule: [{ ...businessHours, action: "ALLOW" }],
+          paramRules: [{ when: [{ field: "agentId", equals: "root" }], action: "DENY" }]
+        }
+      ]
+    };
+    const evaluate = (toolName: string, iso: string, params: Record<string, unknown> = {}) =>
+      evaluatePolicy(schedulePolicy, { toolName, params, context: {} }, undefined, { now: () => new Date(iso) });
+
+    // Wednesday 10:30 in Berlin (CEST, UTC+2).
+    const daytime = evaluate("message", "2026-06-10T08:30:00Z");
+    expect(daytime.decision).toBe("ALLOW");
+    expect(daytime.reason).toBe(
+      'Tool "message" (write) resolved to ALLOW during schedule window mon-fri 09:00-18:00 Europe/Berlin.'
+    );
+    expect(daytime.trace.map((step) => [step.stage, step.outcome])).toEqual([
+      ["base_rule", "ASK"],
+      ["schedule", "ALLOW"]
+    ]);
+
+    // Wednesday 19:30 in Berlin, then Saturday midday.
+    const evening = evaluate("message", "2026-06-10T17:30:00Z");
+    expect(evening.decision).toBe("ASK");
+    expect(evening.reason).toBe(
+      'Tool "message" (write) resolved to ASK outside schedule windows (mon-fri 09:00-18:00 Europe/Berlin).'
+    );
+    expect(evaluate("message", "2026-06-13T10:00:00Z").decision).toBe("ASK");
+
+    expect(evaluate("cron", "2026-06-10T08:30:00Z").decision).toBe("ASK");
+    expect(evaluate("cron", "2026-06-10T22:00:00Z").decision).toBe("DENY");
+    expect(evaluate("sessions_spawn", "2026-06-10T08:30:00Z", { agentId: "root" }).decision).toBe("DENY");
+  });
+
+  it("keeps risk schedules for agents and sessions with overlays", () => {
+    const businessHours = { days: "mon-fri", hours: "09:00-18:00", timezone: "Europe/Berlin" };
+    const overlayPolicy: Policy = {
+      ...policy,
+      riskSchedule: { critical: [{ ...businessHours, action: "ASK" }] },
+      tools: [{ name: "cron", risk: "critical" }],
+      agents: { coder: { tools: [{ name: "write", action: "ALLOW" }] } },
+      sessions: { "cron:*": { risk: { read: "ALLOW" } } }
+    };
+    const evaluate = (iso: string, context: { agentId?: string; sessionKey?: string }) =>
+      evaluatePolicy(overlayPolicy, { toolName: "cron", params: {}, context }, undefined, { now: () => new Date(iso) });
+
+    expect(evaluate("2026-06-10T08:30:00Z", { agentId: "coder" }).decision).toBe("ASK");
+    expect(evaluate("2026-06-10T22:00:00Z", { agentId: "coder" }).decision).toBe("DENY");
+    expect(evaluate("2026-06-10T08:30:00Z", { agentId: "coder", sessionKey: "cron:nightly" }).decision).toBe("ASK");
+  });
 });
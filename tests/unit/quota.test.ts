@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { createQuotaTracker, normalizeQuotaRules } from "../../packages/openclaw/src/quota.js";
+
+function createTempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "firewall-quota-"));
+}
+
+describe("quota tracker", () => {
+  it("persists counts across restarts and resets each period", async () => {
+    const stateDir = createTempDir();
+    const rules = normalizeQuotaRules([{ toolName: "message", maxCalls: 2, period: "day", scope: "agent" }]);
+    const monday = new Date("2026-06-08T10:00:00Z");
+    const first = createQuotaTracker(rules, stateDir);
+    await first.consume("message", { agentId: "main" }, monday);
+    await first.consume("message", { agentId: "main" }, monday);
+
+    const restarted = createQuotaTracker(rules, stateDir);
+    const blocked = restarted.evaluate("message", { agentId: "main" }, monday);
+    expect(blocked.hit?.rule.action).toBe("DENY");
+    expect(blocked.hit?.resetsAt).toBe("2026-06-09T00:00:00.000Z");
+    expect(restarted.evaluate("message", { agentId: "other" }, monday).hit).toBeNull();
+    expect(restarted.evaluate("message", { agentId: "main" }, new Date("2026-06-09T00:00:01Z")).hit).toBeNull();
+    expect(fs.existsSync(path.join(stateDir, "quotas.json"))).toBe(true);
+  });
+
+  it("uses ISO weeks and reports remaining counts per scope", async () => {
+    const stateDir = createTempDir();
+    const rules = normalizeQuotaRules([
+      { toolName: "sessions_spawn", maxCalls: 5, period: "week", scope: "global", action: "ASK" },
+      { toolName: "sessions_spawn", maxCalls: 0, period: "week" },
+      { toolName: "sessions_spawn", maxCalls: 5, period: "month" }
+    ]);
+    const tracker = createQuotaTracker(rules, stateDir);
+    const sunday = new Date("2026-06-14T23:00:00Z");
+    await tracker.consume("sessions_spawn", {}, sunday);
+
+    expect(rules).toHaveLength(1);
+    expect(tracker.evaluate("sessions_spawn", {}, sunday).usage.map((entry) => entry.remaining)).toEqual([4]);
+    expect(tracker.status(sunday).map((entry) => [entry.scopeKey, entry.used, entry.resetsAt])).toEqual([
+      ["global", 1, "2026-06-15T00:00:00.000Z"]
+    ]);
+    expect(tracker.status(new Date("2026-06-15T01:00:00Z"))).toEqual([]);
+  });
+
+  it("counts calls under the quotas lock", async () => {
+    const stateDir = createTempDir();
+    const lockPath = path.join(stateDir, "quotas.lock");
+    const rules = normalizeQuotaRules([{ toolName: "message", maxCalls: 10, period: "day", scope: "global" }]);
+    const tracker = createQuotaTracker(rules, stateDir);
+    fs.writeFileSync(lockPath, "4242:other-process");
+
+    const pending = tracker.consume("message", {});
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(fs.existsSync(path.join(stateDir, "quotas.json"))).toBe(false);
+    fs.rmSync(lockPath);
+    await pending;
+
+    expect(tracker.evaluate("message", {}).usage.map((entry) => entry.used)).toEqual([1]);
+    expect(fs.readdirSync(stateDir)).toEqual(["quotas.json"]);
+  });
+
+  it("matches tool name patterns like the other limits", async () => {
+    const stateDir = createTempDir();
+    const rules = normalizeQuotaRules([{ toolName: "web_*", maxCalls: 1, period: "day" }]);
+    const tracker = createQuotaTracker(rules, stateDir);
+    await tracker.consume("web_fetch", { agentId: "main" });
+
+    expect(tracker.evaluate("web_search", { agentId: "main" }).hit?.used).toBe(1);
+    expect(tracker.evaluate("browser", { agentId: "main" }).usage).toEqual([]);
+  });
+
+  it("fails closed on a corrupt store and never overwrites it", async () => {
+    const stateDir = createTempDir();
+    const filePath = path.join(stateDir, "quotas.json");
+    fs.writeFileSync(filePath, '{"version":1,"buckets":{"message:day:0:agent:ma');
+    const rules = normalizeQuotaRules([
+      { toolName: "message", maxCalls: 5, period: "day", action: "ASK" },
+      { toolName: "*", maxCalls: 50, period: "week" }
+    ]);
+    const tracker = createQuotaTracker(rules, stateDir);
+
+    const result = tracker.evaluate("message", { agentId: "main" });
+    expect(result.hit).toBeNull();
+    expect(result.storeError?.action).toBe("DENY");
+    expect(result.storeError?.message).toContain(filePath);
+    await tracker.consume("message", { agentId: "main" });
+    expect(fs.readFileSync(filePath, "utf8")).toBe('{"version":1,"buckets":{"message:day:0:agent:ma');
+    expect(fs.readdirSync(stateDir)).toEqual(["quotas.json"]);
+  });
+});
@@ -1,29 +1,167 @@
-import { describe, expect, it } from "vitest";
-import { createRateLimiter, normalizeRateLimitRules } from "../../packages/openclaw/src/rate-limit.js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import {
+  createFileRateLimiterStore,
+  createRateLimiter,
+  normalizeRateLimitRules
+} from "../../packages/openclaw/src/rate-limit.js";
+import { StateFileCorruptError } from "../../packages/openclaw/src/storage.js";
+
+function createTempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "firewall-rate-limit-"));
+}
 
 describe("rate limiter", () => {
-  it("enforces max calls per window", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("enforces max calls per window", async () => {
     const rules = normalizeRateLimitRules([
       { toolName: "write", maxCalls: 1, windowSec: 60, action: "ASK", scope: "session" }
     ]);
     const limiter = createRateLimiter(rules);
 
-    const first = limiter.evaluate("write", "session-1");
-    const second = limiter.evaluate("write", "session-1");
+    const first = await limiter.evaluate("write", { sessionKey: "session-1" });
+    const second = await limiter.evaluate("write", { sessionKey: "session-1" });
 
     expect(first).toBeNull();
     expect(second).not.toBeNull();
     expect(second?.rule.action).toBe("ASK");
   });
 
-  it("separates session scopes", () => {
+  it("separates session scopes", async () => {
     const rules = normalizeRateLimitRules([
       { toolName: "web_fetch", maxCalls: 1, windowSec: 60, action: "DENY", scope: "session" }
     ]);
     const limiter = createRateLimiter(rules);
 
-    expect(limiter.evaluate("web_fetch", "a")).toBeNull();
-    expect(limiter.evaluate("web_fetch", "b")).toBeNull();
-    expect(limiter.evaluate("web_fetch", "a")).not.toBeNull();
+    expect(await limiter.evaluate("web_fetch", { sessionKey: "a" })).toBeNull();
+    expect(await limiter.evaluate("web_fetch", { sessionKey: "b" })).toBeNull();
+    expect(await limiter.evaluate("web_fetch", { sessionKey: "a" })).not.toBeNull();
+  });
+
+  it("shares agent budgets across that agent's sessions", async () => {
+    const limiter = createRateLimiter(
+      normalizeRateLimitRules([{ toolName: "browser", maxCalls: 2, windowSec: 60, action: "DENY", scope: "agent" }])
+    );
+
+    expect(await limiter.evaluate("browser", { agentId: "main", sessionKey: "a" })).toBeNull();
+    expect(await limiter.evaluate("browser", { agentId: "main", sessionKey: "b" })).toBeNull();
+    expect(await limiter.evaluate("browser", { agentId: "other", sessionKey: "c" })).toBeNull();
+    expect((await limiter.evaluate("browser", { agentId: "main", sessionKey: "c" }))?.key).toBe("browser:0:agent:main");
+  });
+
+  it("allows bursts with a token bucket and refills over time", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-06-01T00:00:00Z"));
+    const limiter = createRateLimiter(
+      normalizeRateLimitRules([
+        { toolName: "web_fetch", maxCalls: 1, windowSec: 10, algorithm: "token-bucket", burst: 3, action: "DENY" }
+      ])
+    );
+
+    const burst = await Promise.all([1, 2, 3, 4].map(() => limiter.evaluate("web_fetch", { sessionKey: "s1" })));
+    expect(burst.slice(0, 3)).toEqual([null, null, null]);
+    expect(burst[3]?.rule.algorithm).toBe("token-bucket");
+
+    vi.advanceTimersByTime(10_000);
+    expect(await limiter.evaluate("web_fetch", { sessionKey: "s1" })).toBeNull();
+    expect(await limiter.evaluate("web_fetch", { sessionKey: "s1" })).not.toBeNull();
+  });
+
+  it("resets fixed windows at the window boundary", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-06-01T00:00:50Z"));
+    const limiter = createRateLimiter(
+      normalizeRateLimitRules([{ toolName: "exec", maxCalls: 1, windowSec: 60, algorithm: "fixed-window" }])
+    );
+
+    expect(await limiter.evaluate("exec", { sessionKey: "s1" })).toBeNull();
+    expect(await limiter.evaluate("exec", { sessionKey: "s1" })).not.toBeNull();
+    vi.setSystemTime(new Date("2026-06-01T00:01:00Z"));
+    expect(await limiter.evaluate("exec", { sessionKey: "s1" })).toBeNull();
+  });
+
+  it("draws weighted costs from a shared budget", async () => {
+    const limiter = createRateLimiter(
+      normalizeRateLimitRules([
+        {
+          toolName: "web_fetch",
+          maxCalls: 10,
+          windowSec: 60,
+          costs: [
+            { toolName: "browser", cost: 5 },
+            { toolName: "web_fetch", cost: 4, when: [{ field: "url", matches: "\\.pdf$" }] }
+          ]
+        }
+      ])
+    );
+
+    expect(await limiter.evaluate("browser", { sessionKey: "s1" }, { action: "open" })).toBeNull();
+    expect(await limiter.evaluate("web_fetch", { sessionKey: "s1" }, { url: "https://a.test/doc.pdf" })).toBeNull();
+    expect(await limiter.evaluate("web_fetch", { sessionKey: "s1" }, { url: "https://a.test/" })).toBeNull();
+    const hit = await limiter.evaluate("web_fetch", { sessionKey: "s1" }, { url: "https://a.test/" });
+    expect(hit).toMatchObject({ count: 10, cost: 1 });
+    expect(await limiter.evaluate("exec", { sessionKey: "s1" })).toBeNull();
+  });
+
+  it("shares one budget between limiters using the same file store", async () => {
+    const stateDir = createTempDir();
+    const rules = normalizeRateLimitRules([{ toolName: "browser", maxCalls: 2, windowSec: 60, scope: "global" }]);
+    const first = createRateLimiter(rules, createFileRateLimiterStore(stateDir));
+    const second = createRateLimiter(rules, createFileRateLimiterStore(stateDir));
+
+    expect(await first.evaluate("browser", {})).toBeNull();
+    expect(await second.evaluate("browser", {})).toBeNull();
+    expect((await first.evaluate("browser", {}))?.count).toBe(2);
+    expect(fs.readdirSync(stateDir).sort()).toEqual(["rate-limits.json"]);
+  });
+
+  it("breaks a stale lock left by a crashed process", async () => {
+    const stateDir = createTempDir();
+    const lockPath = path.join(stateDir, "rate-limits.lock");
+    fs.writeFileSync(lockPath, "4242:crashed");
+    const past = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockPath, past, past);
+    const limiter = createRateLimiter(
+      normalizeRateLimitRules([{ toolName: "exec", maxCalls: 1, windowSec: 60 }]),
+      createFileRateLimiterStore(stateDir)
+    );
+
+    expect(await limiter.evaluate("exec", { sessionKey: "s1" })).toBeNull();
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it("serializes limiters that race for a stale lock", async () => {
+    const stateDir = createTempDir();
+    const lockPath = path.join(stateDir, "rate-limits.lock");
+    fs.writeFileSync(lockPath, "4242:crashed");
+    const past = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockPath, past, past);
+    const rules = normalizeRateLimitRules([{ toolName: "browser", maxCalls: 3, windowSec: 60, scope: "global" }]);
+    const limiters = [1, 2, 3, 4, 5].map(() => createRateLimiter(rules, createFileRateLimiterStore(stateDir)));
+
+    const hits = await Promise.all(limiters.map((limiter) => limiter.evaluate("browser", {})));
+
+    expect(hits.filter((hit) => hit === null)).toHaveLength(3);
+    expect(hits.flatMap((hit) => (hit ? [hit.count] : [])).sort()).toEqual([3, 4]);
+    expect(fs.readdirSync(stateDir).sort()).toEqual(["rate-limits.json"]);
+  });
+
+  it("rejects a corrupt file store instead of resetting its budgets", async () => {
+    const stateDir = createTempDir();
+    const filePath = path.join(stateDir, "rate-limits.json");
+    fs.writeFileSync(filePath, '{"version":1,"buckets":{"exec:glo');
+    const limiter = createRateLimiter(
+      normalizeRateLimitRules([{ toolName: "exec", maxCalls: 1, windowSec: 60 }]),
+      createFileRateLimiterStore(stateDir)
+    );
+
+    await expect(limiter.evaluate("exec", { sessionKey: "s1" })).rejects.toBeInstanceOf(StateFileCorruptError);
+    expect(fs.readFileSync(filePath, "utf8")).toBe('{"version":1,"buckets":{"exec:glo');
+    expect(fs.readdirSync(stateDir)).toEqual(["rate-limits.json"]);
   });
 });
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import {
+  matchScheduleWindow,
+  parseScheduleDays,
+  parseScheduleHours
+} from "../../packages/core/src/index.js";
+
+describe("schedule windows", () => {
+  it("parses day lists, wrapping ranges, and hours", () => {
+    expect(parseScheduleDays("mon-fri")).toEqual(new Set([1, 2, 3, 4, 5]));
+    expect(parseScheduleDays(["sat", "sun"])).toEqual(new Set([6, 0]));
+    expect(parseScheduleDays("fri-mon")).toEqual(new Set([5, 6, 0, 1]));
+    expect(parseScheduleDays("funday")).toBeNull();
+    expect(parseScheduleHours("09:00-18:00")).toEqual([540, 1080]);
+    expect(parseScheduleHours("22:00-24:00")).toEqual([1320, 1440]);
+    expect(parseScheduleHours("9am-5pm")).toBeNull();
+  });
+
+  it("matches overnight windows in the window's timezone", () => {
+    const night = { hours: "22:00-06:00", timezone: "America/New_York" };
+
+    // 23:30 and 05:00 in New York (EDT, UTC-4), then 12:00.
+    expect(matchScheduleWindow(night, new Date("2026-06-11T03:30:00Z"))).toBe(true);
+    expect(matchScheduleWindow(night, new Date("2026-06-11T09:00:00Z"))).toBe(true);
+    expect(matchScheduleWindow(night, new Date("2026-06-11T16:00:00Z"))).toBe(false);
+    expect(matchScheduleWindow({ days: "sat,sun" }, new Date("2026-06-13T12:00:00Z"))).toBe(true);
+    expect(matchScheduleWindow({ timezone: "Mars/Olympus" }, new Date())).toBe(false);
+  });
+
+  it("checks days of overnight windows against the day they start", () => {
+    const fridayNight = { days: "fri", hours: "22:00-06:00" };
+
+    // 2026-06-12 is a Friday.
+    expect(matchScheduleWindow(fridayNight, new Date("2026-06-12T23:00:00Z"))).toBe(true);
+    expect(matchScheduleWindow(fridayNight, new Date("2026-06-13T02:00:00Z"))).toBe(true);
+    expect(matchScheduleWindow(fridayNight, new Date("2026-06-12T02:00:00Z"))).toBe(false);
+    expect(matchScheduleWindow(fridayNight, new Date("2026-06-13T23:00:00Z"))).toBe(false);
+  });
+});
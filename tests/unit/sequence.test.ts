@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { SequenceRule } from "../../packages/core/src/index.js";
+import { createSequenceTracker } from "../../packages/openclaw/src/sequence.js";
+
+const sshExfil: SequenceRule = {
+  id: "ssh-exfil",
+  steps: [{ tool: "read", when: [{ field: "path", matches: "\\.ssh/" }] }, { tool: "web_fetch" }],
+  withinSec: 300,
+  action: "DENY"
+};
+
+const memoryToMessage: SequenceRule = {
+  id: "memory-message",
+  steps: [{ tool: "memory_*" }, { tool: "read" }, { tool: "message" }],
+  action: "ASK"
+};
+
+describe("sequence tracker", () => {
+  it("matches ordered steps with other calls in between", () => {
+    const tracker = createSequenceTracker();
+    const rules = [sshExfil];
+    tracker.record("s1", { toolName: "read", params: { path: "~/.ssh/id_rsa" }, paramsHash: "h1" }, rules, 0);
+    tracker.record("s1", { toolName: "exec", params: { command: "ls" }, paramsHash: "h2" }, rules, 1000);
+
+    const match = tracker.evaluate("s1", { toolName: "web_fetch", params: { url: "https://x.test" } }, rules, 2000);
+
+    expect(match?.rule.id).toBe("ssh-exfil");
+    expect(match?.matchedAt).toEqual([0]);
+    expect(tracker.evaluate("s2", { toolName: "web_fetch", params: {} }, rules, 2000)).toBeNull();
+    expect(tracker.history("s1", 2000).map((entry) => entry.paramsHash)).toEqual(["h1", "h2"]);
+  });
+
+  it("requires param conditions, order, and the time bound", () => {
+    const tracker = createSequenceTracker();
+    const rules = [sshExfil, memoryToMessage];
+    tracker.record("s1", { toolName: "read", params: { path: "./notes.md" }, paramsHash: "h1" }, rules, 0);
+    expect(tracker.evaluate("s1", { toolName: "web_fetch", params: {} }, rules, 1000)).toBeNull();
+
+    tracker.record("s1", { toolName: "read", params: { path: "/home/u/.ssh/config" }, paramsHash: "h2" }, rules, 0);
+    expect(tracker.evaluate("s1", { toolName: "web_fetch", params: {} }, rules, 301_000)).toBeNull();
+
+    expect(tracker.evaluate("s1", { toolName: "message", params: {} }, rules, 1000)).toBeNull();
+    tracker.record("s1", { toolName: "memory_get", params: {}, paramsHash: "h3" }, rules, 2000);
+    expect(tracker.evaluate("s1", { toolName: "message", params: {} }, rules, 3000)).toBeNull();
+    tracker.record("s1", { toolName: "read", params: { path: "./a" }, paramsHash: "h4" }, rules, 4000);
+    expect(tracker.evaluate("s1", { toolName: "message", params: {} }, rules, 5000)?.rule.id).toBe("memory-message");
+  });
+
+  it("keeps a bounded sliding window per session", () => {
+    const tracker = createSequenceTracker({ maxEntries: 2, windowMs: 10_000 });
+    for (let i = 0; i < 3; i += 1) {
+      tracker.record("s1", { toolName: `tool_${i}`, params: {}, paramsHash: `h${i}` }, [sshExfil], i * 1000);
+    }
+
+    expect(tracker.history("s1", 3000).map((entry) => entry.toolName)).toEqual(["tool_1", "tool_2"]);
+    expect(tracker.history("s1", 12_000)).toEqual([]);
+  });
+});
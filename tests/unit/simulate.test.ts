@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import type { Policy, Receipt } from "../../packages/core/src/index.js";
+import { buildCallShape, formatSimulationReport, simulatePolicy } from "../../packages/openclaw/src/simulate.js";
+
+const basePolicy: Policy = {
+  mode: "standard",
+  defaults: {
+    denyUnknownTools: true,
+    unknownToolAction: "DENY",
+    log: "safe",
+    redaction: "standard",
+    injection: { mode: "alert" }
+  },
+  risk: {
+    read: "ALLOW",
+    write: "ASK",
+    critical: "DENY",
+    unknown: "DENY"
+  },
+  tools: [
+    { name: "read", risk: "read" },
+    { name: "write", risk: "write" },
+    { name: "exec", risk: "critical", action: "ASK" }
+  ]
+};
+
+function receipt(toolName: string, decision: Receipt["decision"], metadata: Record<string, unknown>, agentId?: string): Receipt {
+  const entry: Receipt = { id: toolName, timestamp: "2026-01-01T00:00:00.000Z", toolName, decision, metadata };
+  if (agentId) {
+    entry.agentId = agentId;
+  }
+  return entry;
+}
+
+describe("policy simulation", () => {
+  it("reports decision flips grouped by tool and agent", () => {
+    const receipts: Receipt[] = [
+      receipt("read", "ALLOW", { callShape: buildCallShape("read", { path: "/srv/app/a.txt" }) }, "coder"),
+      receipt("read", "ALLOW", { callShape: buildCallShape("read", { path: "/etc/passwd" }) }, "coder"),
+      receipt("exec", "ALLOW", {
+        paramsPreview: JSON.stringify({ command: "git status" }),
+        trace: [
+          { stage: "base_rule", input: {}, outcome: "ASK", reason: "" },
+          { stage: "approval", input: {}, outcome: "ALLOW", reason: "" }
+        ]
+      }),
+      receipt("exec", "ASK", { paramsPreview: JSON.stringify({ command: "rm -rf /" }) }),
+      { id: "result", timestamp: "2026-01-01T00:00:00.000Z", toolName: "read" }
+    ];
+    const candidate: Policy = {
+      ...basePolicy,
+      tools: [
+        { name: "read", risk: "read", allowPaths: ["/srv/app"], pathAction: "DENY" },
+        { name: "write", risk: "write" },
+        {
+          name: "exec",
+          risk: "critical",
+          action: "ASK",
+          paramRules: [
+            { when: [{ field: "command", prefix: "git status" }], action: "ALLOW" },
+            { when: [{ field: "command", matches: "^rm " }], action: "DENY" }
+          ]
+        }
+      ]
+    };
+
+    const report = simulatePolicy(receipts, candidate);
+
+    expect(report.replayed).toBe(4);
+    expect(report.skipped).toBe(1);
+    expect(report.flipCount).toBe(3);
+    const read = report.groups.find((group) => group.toolName === "read");
+    expect(read?.agentId).toBe("coder");
+    expect(read?.flips).toEqual([{ from: "ALLOW", to: "DENY", count: 1 }]);
+    const exec = report.groups.find((group) => group.toolName === "exec");
+    expect(exec?.flips).toEqual([
+      { from: "ASK", to: "ALLOW", count: 1 },
+      { from: "ASK", to: "DENY", count: 1 }
+    ]);
+    expect(formatSimulationReport(report)).toContain("read (agent: coder): ALLOW->DENY x1 of 2");
+  });
+
+  it("reports no flips for an identical policy", () => {
+    const receipts = [receipt("write", "ASK", { callShape: buildCallShape("write", { path: "/tmp/x" }) })];
+    const report = simulatePolicy(receipts, basePolicy);
+    expect(report.flipCount).toBe(0);
+    expect(report.withoutParams).toBe(1);
+    expect(formatSimulationReport(report)).toContain("No decision flips.");
+  });
+
+  it("reports receipts with a truncated params preview separately", () => {
+    const preview = `${JSON.stringify({ command: `echo ${"x".repeat(600)}` }).slice(0, 500)}...`;
+    const report = simulatePolicy([receipt("exec", "ASK", { paramsPreview: preview, paramsTruncated: true })], basePolicy);
+
+    expect(report.withoutParams).toBe(0);
+    expect(report.truncatedParams).toBe(1);
+    expect(formatSimulationReport(report)).toContain(
+      "1 decision(s) had a params preview truncated at 500 characters; param rules, exec command policies, and network guards were evaluated without params."
+    );
+  });
+
+  it("replays deny paths from params or recorded deny matches", () => {
+    const receipts: Receipt[] = [
+      receipt("write", "ASK", { paramsPreview: JSON.stringify({ path: "/srv/app/.env" }) }),
+      receipt("read", "DENY", {
+        trace: [
+          { stage: "base_rule", input: {}, outcome: "ALLOW", reason: "" },
+          { stage: "path_guard", input: { denied: 1 }, outcome: "DENY", reason: "" }
+        ],
+        pathGuard: { denied: [{ path: "abcd1234", pattern: "~/.ssh", source: "sensitive" }] }
+      })
+    ];
+    const candidate: Policy = {
+      ...basePolicy,
+      tools: [
+        { name: "read", risk: "read" },
+        { name: "write", risk: "write", denyPaths: [".env"] }
+      ]
+    };
+
+    expect(simulatePolicy(receipts, candidate).flipCount).toBe(1);
+    const optedOut = simulatePolicy(receipts, { ...candidate, defaults: { ...candidate.defaults, sensitivePaths: false } });
+    expect(optedOut.groups.find((group) => group.toolName === "read")?.flips).toEqual([
+      { from: "DENY", to: "ALLOW", count: 1 }
+    ]);
+  });
+
+  it("replays workspace scopes from recorded call shapes", () => {
+    const receipts: Receipt[] = [
+      receipt("write", "ALLOW", { callShape: buildCallShape("write", { path: "/srv/docs/guide.md" }) }),
+      receipt("read", "ALLOW", { callShape: buildCallShape("read", { path: "/srv/docs/guide.md" }) }),
+      receipt("exec", "ALLOW", { callShape: buildCallShape("exec", { command: "rm /srv/app/tmp.txt" }) })
+    ];
+    const candidate: Policy = {
+      ...basePolicy,
+      risk: { ...basePolicy.risk, write: "ALLOW" },
+      tools: [
+        { name: "read", risk: "read" },
+        { name: "write", risk: "write" },
+        { name: "exec", risk: "critical", action: "ALLOW" }
+      ],
+      workspaces: { readOnly: ["/srv/docs"], noDelete: ["/srv/app"], action: "DENY" }
+    };
+
+    const report = simulatePolicy(receipts, candidate);
+
+    expect(report.groups.map((group) => [group.toolName, group.flips])).toEqual([
+      ["exec", [{ from: "ALLOW", to: "DENY", count: 1 }]],
+      ["read", []],
+      ["write", [{ from: "ALLOW", to: "DENY", count: 1 }]]
+    ]);
+  });
+});
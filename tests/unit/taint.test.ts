@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { createTaintLedger } from "../../packages/openclaw/src/taint.js";
+
+describe("taint ledger", () => {
+  it("merges findings per session and extends the expiry", () => {
+    const ledger = createTaintLedger();
+    ledger.mark("s1", { hashes: ["aaa"], types: ["openai_key"], source: "read" }, 1000, 0);
+    const record = ledger.mark("s1", { hashes: ["bbb", "aaa"], types: ["ignore_instructions"], source: "web_fetch" }, 1000, 500);
+
+    expect(record).toEqual({
+      hashes: ["aaa", "bbb"],
+      types: ["openai_key", "ignore_instructions"],
+      sources: ["read", "web_fetch"],
+      firstAt: 0,
+      expiresAt: 1500
+    });
+    expect(ledger.get("s2", 500)).toBeNull();
+  });
+
+  it("expires and clears taint", () => {
+    const ledger = createTaintLedger();
+    ledger.mark("s1", { hashes: [], types: ["secret"], source: "read" }, 1000, 0);
+    ledger.mark("s2", { hashes: [], types: ["secret"], source: "read" }, 5000, 0);
+
+    expect(ledger.get("s1", 999)).not.toBeNull();
+    expect(ledger.get("s1", 1000)).toBeNull();
+    expect(ledger.list(1000).map((entry) => entry.sessionKey)).toEqual(["s2"]);
+    expect(ledger.clear("s2")).toBe(true);
+    expect(ledger.clear("s2")).toBe(false);
+  });
+});
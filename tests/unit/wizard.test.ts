@@ -123,4 +123,63 @@ describe("firewall setup wizard", () => {
 
     expect(result.rateLimits).toEqual([]);
   });
+
+  it("configures token-bucket rate limits with weighted costs", async () => {
+    const answers: Record<string, string> = {
+      "Tool name (* for all tools)": "web_fetch",
+      "Tool drawing from this budget": "browser",
+      "Only when param field (blank for any call)": ""
+    };
+    let costsAdded = 0;
+    const prompt: NonNullable<WizardRunOptions["prompt"]> = {
+      ask: async (promptText: string, fallback?: string) => answers[promptText] ?? fallback ?? "",
+      choose: async <T extends string>(
+        promptText: string,
+        _choices: Array<{ value: T; label: string; detail: string }>,
+        fallback: T
+      ) => (promptText === "Rate limit algorithm" ? ("token-bucket" as T) : fallback),
+      confirm: async (promptText: string, fallback: boolean) => {
+        if (promptText === "Configure rate limits?") {
+          return true;
+        }
+        if (promptText.startsWith("Add weighted costs")) {
+          costsAdded += 1;
+          return costsAdded === 1;
+        }
+        return fallback;
+      },
+      number: async (promptText: string, fallback: number) => {
+        if (promptText.startsWith("Burst capacity")) {
+          return 10;
+        }
+        return promptText === "Cost per call" ? 5 : fallback;
+      },
+      close: () => {}
+    };
+
+    const result = await runFirewallSetupWizard({
+      prefill: {
+        configPath: "/tmp/openclaw-wizard-bucket/openclaw.json",
+        policyPath: "/tmp/openclaw-wizard-bucket/firewall.yaml",
+        preset: "standard",
+        pluginPath: "/tmp/openclaw-wizard-bucket/plugin.js",
+        flow: "advanced",
+        autoWrite: false
+      },
+      prompt
+    });
+
+    expect(result.rateLimits).toEqual([
+      {
+        toolName: "web_fetch",
+        maxCalls: 20,
+        windowSec: 60,
+        action: "ASK",
+        scope: "session",
+        algorithm: "token-bucket",
+        burst: 10,
+        costs: [{ toolName: "browser", cost: 5 }]
+      }
+    ]);
+  });
 });